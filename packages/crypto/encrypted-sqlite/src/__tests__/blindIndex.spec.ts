@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { ensurePairsDDL } from "../pairs.js";
+import { insertEncrypted, updateEncrypted } from "../mutations.js";
+import { startEncryptedMirrorSubscriptions } from "../replicator.js";
+import { blindIndexFilter, computeBlindIndex } from "../blindIndex.js";
+import { createDEKCrypto } from "../types.js";
+import { FakeDB, MockCrypto } from "./fakes.js";
+
+const ROOMS_PAIR = {
+  name: "chat_rooms",
+  encryptedTable: "chat_rooms_cipher",
+  mirrorTable: "chat_rooms_plain",
+  mirrorColumns: [{ name: "name", type: "TEXT" }],
+  blindIndexes: [{ name: "invite_tag", value: (room: any) => room.inviteTag }],
+  parsePlain: () => ({}),
+};
+
+const DEK = new Uint8Array(32).fill(7);
+
+describe("blind indexes", () => {
+  it("creates index columns and writes keyed tokens of the normalized value", async () => {
+    const db = new FakeDB();
+    await ensurePairsDDL(db as any, [ROOMS_PAIR]);
+    const ddl = db.execCalls.map(c => c.sql).join("\n---\n");
+    expect(ddl).toContain("invite_tag_bidx TEXT");
+    expect(ddl).toContain("CREATE INDEX IF NOT EXISTS idx_chat_rooms_cipher_invite_tag_bidx");
+    expect(ddl).toContain("'invite_tag_bidx', NEW.invite_tag_bidx");
+
+    const runtime = { db, userId: "u1", crypto: createDEKCrypto(DEK) };
+    await insertEncrypted(runtime as any, ROOMS_PAIR, {
+      id: "r1",
+      bucketId: "r1",
+      object: { name: "Book club", inviteTag: "  Book-Club " },
+    });
+    const insert = db.execCalls.find(c => c.sql.startsWith("INSERT INTO chat_rooms_cipher"))!;
+    expect(insert.sql).toContain("updated_at, invite_tag_bidx");
+    const token = await computeBlindIndex(runtime as any, ROOMS_PAIR, "invite_tag", "book-club");
+    expect(insert.params![10]).toBe(token);
+    expect(token).not.toContain("book");
+
+    // Same value, other pair: a different key, so a different token.
+    const other = await computeBlindIndex(runtime as any, { ...ROOMS_PAIR, name: "chat_topics" }, "invite_tag", "book-club");
+    expect(other).not.toBe(token);
+
+    // Plaintext updates cannot read the value, so the stored token is left alone unless given.
+    await updateEncrypted(runtime as any, ROOMS_PAIR, { id: "r1", bucketId: "r1", plaintext: new Uint8Array([1]) });
+    let update = db.execCalls.filter(c => c.sql.startsWith("UPDATE chat_rooms_cipher")).pop()!;
+    expect(update.sql).not.toContain("invite_tag_bidx");
+
+    await updateEncrypted(runtime as any, ROOMS_PAIR, {
+      id: "r1",
+      bucketId: "r1",
+      plaintext: new Uint8Array([1]),
+      blindIndexes: { invite_tag: null },
+    });
+    update = db.execCalls.filter(c => c.sql.startsWith("UPDATE chat_rooms_cipher")).pop()!;
+    expect(update.sql).toContain("invite_tag_bidx = ?");
+    expect(update.params![6]).toBeNull();
+  });
+
+  it("filters the default mirror query by blind index", async () => {
+    const db = new FakeDB();
+    const runtime = { db, userId: "u1", crypto: MockCrypto as any, blindIndexKeys: createDEKCrypto(DEK) };
+    const filter = await blindIndexFilter(runtime as any, ROOMS_PAIR, { invite_tag: "Book-Club" });
+    expect(filter.sql).toBe("invite_tag_bidx = ?");
+
+    const stop = startEncryptedMirrorSubscriptions(runtime as any, [{ pair: ROOMS_PAIR, filter }], { throttleMs: 0 });
+    expect(db.queries[0].sql).toContain("AND (invite_tag_bidx = ?)");
+    expect(db.queries[0].parameters).toEqual([
+      "u1",
+      await computeBlindIndex(runtime as any, ROOMS_PAIR, "invite_tag", "book-club"),
+    ]);
+    stop();
+
+    await expect(
+      computeBlindIndex({ crypto: MockCrypto as any }, ROOMS_PAIR, "invite_tag", "x")
+    ).rejects.toThrow("no blindIndexKeys");
+  });
+});
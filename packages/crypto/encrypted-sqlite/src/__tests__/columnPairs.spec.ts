@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from "vitest";
+import { KeyUnavailableError, decodeEnvelope, encodeEnvelope } from "@crypto/interface";
+import { ensureColumnPairsDDL } from "../pairs.js";
+import { insertEncryptedColumns, startEncryptedColumnMirrors, updateEncryptedColumns } from "../columnPairs.js";
+import { MemoryKeyRing } from "../keyring.js";
+import { createDEKCrypto } from "../types.js";
+import { FakeDB } from "./fakes.js";
+
+const NOTES_PAIR = {
+  mode: "columns" as const,
+  name: "notes",
+  table: "notes",
+  mirrorTable: "notes_plain",
+  encryptedColumns: [
+    { name: "title", type: "TEXT" },
+    { name: "pinned", type: "INTEGER" },
+  ],
+  plainColumns: [{ name: "list_id", type: "TEXT" }],
+};
+
+describe("column pairs", () => {
+  it("encodes envelopes compactly, keeping KDF parameters", () => {
+    const env = {
+      header: { v: 1 as const, alg: "xchacha20poly1305/argon2id", kid: "k|1", kdf: { saltB64: "c2FsdA==", opsLimit: 3 } },
+      nB64: "bm9uY2U=",
+      cB64: "Y2lwaGVy",
+    };
+    const encoded = encodeEnvelope(env);
+    expect(encoded.startsWith("ce1|xchacha20poly1305%2Fargon2id|k%7C1|")).toBe(true);
+    expect(decodeEnvelope(encoded, "ctx")).toEqual({ ...env, header: { ...env.header, aad: "ctx" } });
+    expect(() => decodeEnvelope("ce1|broken")).toThrow("Not a compact envelope");
+  });
+
+  it("encrypts only the configured columns and mirrors decrypted values", async () => {
+    const db = new FakeDB();
+    const runtime = { db, userId: "u1", crypto: createDEKCrypto(new Uint8Array(32).fill(3)) };
+
+    await ensureColumnPairsDDL(db as any, [NOTES_PAIR]);
+    const ddl = db.execCalls.map(c => c.sql).join("\n---\n");
+    expect(ddl).toContain("CREATE TABLE IF NOT EXISTS notes_plain (");
+    expect(ddl).toContain("CREATE TABLE IF NOT EXISTS notes_plain_failures (");
+
+    await insertEncryptedColumns(runtime as any, NOTES_PAIR, {
+      id: "n1",
+      values: { title: "Groceries", pinned: true, list_id: "l1" },
+    });
+    const insert = db.execCalls.find(c => c.sql.startsWith("INSERT INTO notes ("))!;
+    expect(insert.sql).toContain("(id, title, pinned, list_id)");
+    const [, title, pinned, listId] = insert.params!;
+    expect(title).toMatch(/^ce1\|/);
+    expect(pinned).toMatch(/^ce1\|/);
+    expect(listId).toBe("l1");
+
+    await updateEncryptedColumns(runtime as any, NOTES_PAIR, { id: "n1", values: { pinned: null } });
+    expect(db.execCalls[db.execCalls.length - 1]).toEqual({ sql: "UPDATE notes SET pinned = ? WHERE id = ?", params: [null, "n1"] });
+
+    const stop = startEncryptedColumnMirrors(runtime as any, [NOTES_PAIR], { throttleMs: 0 });
+    expect(db.queries[0].sql).toBe("SELECT id, title, pinned, list_id FROM notes");
+    await db.queries[0].instance.emit({
+      added: [
+        { id: "n1", title, pinned, list_id: "l1" },
+        // A value copied from another row does not decrypt: the AAD binds the row id.
+        { id: "n2", title, pinned: null, list_id: "l1" },
+        // Plaintext in an encrypted column is not trusted as if it had been decrypted.
+        { id: "n3", title: "Forged", pinned: null, list_id: null },
+      ],
+    });
+    const mirrored = db.lastTx!.calls.filter(c => c.sql.startsWith("INSERT OR REPLACE INTO notes_plain"));
+    expect(mirrored.map(c => c.params)).toEqual([["n1", "Groceries", true, "l1"]]);
+    const failures = db.lastTx!.calls.filter(c => c.sql.startsWith("INSERT INTO notes_plain_failures"));
+    expect(failures.map(c => c.params!.slice(0, 2))).toEqual([
+      ["n2", "AuthenticationFailedError"],
+      ["n3", "MalformedEnvelopeError"],
+    ]);
+
+    db.lastTx = null;
+    await db.queries[0].instance.emit({ removed: [{ id: "n1" }] });
+    expect(db.lastTx!.calls[0]).toEqual({ sql: "DELETE FROM notes_plain WHERE id = ?", params: ["n1"] });
+    stop();
+  });
+
+  it("mirrors values written before encryption only when the pair accepts legacy plaintext", async () => {
+    const db = new FakeDB();
+    const runtime = { db, userId: "u1", crypto: createDEKCrypto(new Uint8Array(32).fill(3)) };
+    const stop = startEncryptedColumnMirrors(runtime as any, [{ ...NOTES_PAIR, acceptLegacyPlaintext: true }], { throttleMs: 0 });
+    await db.queries[0].instance.emit({ added: [{ id: "n3", title: "Legacy", pinned: 0, list_id: null }] });
+    const mirrored = db.lastTx!.calls.filter(c => c.sql.startsWith("INSERT OR REPLACE INTO notes_plain"));
+    expect(mirrored.map(c => c.params)).toEqual([["n3", "Legacy", 0, null]]);
+    stop();
+  });
+
+  it("parks rows whose key is missing until the key is announced", async () => {
+    const db = new FakeDB();
+    const k2 = createDEKCrypto(new Uint8Array(32).fill(5), { kid: "k2" });
+    await insertEncryptedColumns({ db, userId: "u1", crypto: k2 } as any, NOTES_PAIR, {
+      id: "n1",
+      values: { title: "Later", pinned: false, list_id: "l1" },
+    });
+    const [, title, pinned] = db.execCalls.find(c => c.sql.startsWith("INSERT INTO notes ("))!.params!;
+    const ring = new MemoryKeyRing();
+    const stop = startEncryptedColumnMirrors({ db, userId: "u1", crypto: null } as any, [NOTES_PAIR], {
+      throttleMs: 0,
+      resolveCrypto: ({ kid, row }) => ring.resolve({ kid, row: row as any, pair: NOTES_PAIR as any }),
+      keyNotifier: ring,
+    });
+    await db.queries[0].instance.emit({ added: [{ id: "n1", title, pinned, list_id: "l1" }] });
+    expect(db.lastTx!.calls).toEqual([]);
+
+    db.lastTx = null;
+    ring.add(k2);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const mirrored = db.lastTx!.calls.filter(c => c.sql.startsWith("INSERT OR REPLACE INTO notes_plain"));
+    expect(mirrored.map(c => c.params)).toEqual([["n1", "Later", false, "l1"]]);
+    stop();
+  });
+
+  it("retries rows whose key is missing with backoff when nothing announces keys", async () => {
+    vi.useFakeTimers();
+    const db = new FakeDB();
+    const crypto = createDEKCrypto(new Uint8Array(32).fill(3));
+    await insertEncryptedColumns({ db, userId: "u1", crypto } as any, NOTES_PAIR, {
+      id: "n1",
+      values: { title: "Later", pinned: null, list_id: null },
+    });
+    const [, title] = db.execCalls.find(c => c.sql.startsWith("INSERT INTO notes ("))!.params!;
+    let synced = false;
+    const stop = startEncryptedColumnMirrors({ db, userId: "u1", crypto } as any, [NOTES_PAIR], {
+      throttleMs: 0,
+      resolveCrypto: () => {
+        if (!synced) throw new KeyUnavailableError("key not synced yet");
+        return crypto;
+      },
+    });
+    try {
+      await db.queries[0].instance.emit({ added: [{ id: "n1", title, pinned: null, list_id: null }] });
+      expect(db.lastTx!.calls).toEqual([]);
+
+      synced = true;
+      db.lastTx = null;
+      await vi.advanceTimersByTimeAsync(500);
+      const mirrored = db.lastTx!.calls.filter(c => c.sql.startsWith("INSERT OR REPLACE INTO notes_plain"));
+      expect(mirrored.map(c => c.params)).toEqual([["n1", "Later", null, null]]);
+    } finally {
+      stop();
+      vi.useRealTimers();
+    }
+  });
+});
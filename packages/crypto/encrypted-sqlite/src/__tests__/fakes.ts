@@ -36,11 +36,19 @@ export class FakeDB {
   execCalls: ExecCall[] = [];
   lastTx: FakeTx | null = null;
   queries: Array<{ sql: string; parameters?: any[]; instance: FakeQuery }> = [];
+  /** rows returned by getAll(), keyed by a substring of the SQL */
+  getAllResults: Record<string, any[]> = {};
 
   async execute(sql: string, params?: any[]) {
     this.execCalls.push({ sql, params });
   }
 
+  async getAll<T = any>(sql: string, params?: any[]): Promise<T[]> {
+    this.execCalls.push({ sql, params });
+    const match = Object.keys(this.getAllResults).find((key) => sql.includes(key));
+    return (match ? this.getAllResults[match] : []) as T[];
+  }
+
   query(args: { sql: string; parameters?: any[] }): {
     differentialWatch: (opts: any) => FakeQuerySub;
   } {
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { insertEncrypted, updateEncrypted, deleteEncrypted } from "../mutations.js";
+import { parseRowAad } from "../aad.js";
 import { FakeDB, MockCrypto } from "./fakes";
 
 const CHAT_MESSAGES_PAIR = {
@@ -51,4 +52,124 @@ describe("mutations", () => {
     expect(call!.params![0]).toBe("m1");
     expect(call!.params![1]).toBe("u1");
   });
+
+  it("binds row identity into the AAD on insert and update", async () => {
+    const db = new FakeDB();
+    const runtime = { db, userId: "u1", crypto: MockCrypto as any };
+
+    await insertEncrypted(runtime as any, CHAT_MESSAGES_PAIR, {
+      id: "m1",
+      bucketId: "room-1",
+      object: { content: "Hello", isEdited: false }
+    });
+    const insert = db.execCalls.find(c => (c.sql as string).startsWith("INSERT INTO chat_messages_cipher"));
+    expect(parseRowAad(insert!.params![4])).toEqual({
+      base: "chat-message-v1",
+      table: "chat_messages_cipher",
+      id: "m1",
+      userId: "u1",
+      bucketId: "room-1"
+    });
+
+    // Without an explicit bucketId the update looks up the row's current bucket.
+    db.getAllResults["FROM chat_messages_cipher"] = [{ bucket_id: "room-1" }];
+    await updateEncrypted(runtime as any, CHAT_MESSAGES_PAIR, {
+      id: "m1",
+      object: { content: "Hello again", isEdited: true }
+    });
+    const update = db.execCalls.find(c => (c.sql as string).startsWith("UPDATE chat_messages_cipher"));
+    expect(parseRowAad(update!.params![1])?.bucketId).toBe("room-1");
+    expect(update!.sql).not.toContain("bucket_id = ?");
+  });
+
+  it("writes an explicit bucketId along with the AAD that binds it", async () => {
+    const db = new FakeDB();
+    const runtime = { db, userId: "u1", crypto: MockCrypto as any };
+    db.getAllResults["FROM chat_messages_cipher"] = [{ bucket_id: "room-1" }];
+
+    await updateEncrypted(runtime as any, CHAT_MESSAGES_PAIR, {
+      id: "m1",
+      bucketId: "room-2",
+      object: { content: "Moved", isEdited: true }
+    });
+    const update = db.execCalls.find(c => (c.sql as string).startsWith("UPDATE chat_messages_cipher"))!;
+    expect(parseRowAad(update.params![1])?.bucketId).toBe("room-2");
+    expect(update.sql).toContain("bucket_id = ?");
+    expect(update.params!.slice(-3)).toEqual(["room-2", "m1", "u1"]);
+  });
+
+  it("keeps the static AAD when row binding is disabled", async () => {
+    const db = new FakeDB();
+    const runtime = { db, userId: "u1", crypto: MockCrypto as any };
+
+    await insertEncrypted(runtime as any, { ...CHAT_MESSAGES_PAIR, aadBinding: "static" as const }, {
+      id: "m1",
+      bucketId: "room-1",
+      object: { content: "Hello", isEdited: false }
+    });
+    const insert = db.execCalls.find(c => (c.sql as string).startsWith("INSERT INTO chat_messages_cipher"));
+    expect(insert!.params![4]).toBe("chat-message-v1");
+  });
+
+  it("stores the envelope key id when the pair has a kid column", async () => {
+    const db = new FakeDB();
+    const crypto = {
+      keyId: "room-1:epoch:2",
+      async encrypt(plain: Uint8Array, aad?: string) {
+        const env = await MockCrypto.encrypt(plain, aad);
+        return { ...env, header: { ...env.header, kid: "room-1:epoch:2" } };
+      },
+      decrypt: MockCrypto.decrypt
+    };
+    const pair = { ...CHAT_MESSAGES_PAIR, tableShape: { kidColumn: "kid" } };
+
+    await insertEncrypted({ db, userId: "u1", crypto } as any, pair, {
+      id: "m1",
+      bucketId: "room-1",
+      object: { content: "Hello", isEdited: false }
+    });
+    const insert = db.execCalls.find(c => (c.sql as string).startsWith("INSERT INTO chat_messages_cipher"));
+    expect(insert!.sql).toContain("updated_at, kid");
+    expect(insert!.params![10]).toBe("room-1:epoch:2");
+
+    await updateEncrypted({ db, userId: "u1", crypto } as any, pair, {
+      id: "m1",
+      bucketId: "room-1",
+      object: { content: "Hello again", isEdited: true }
+    });
+    const update = db.execCalls.find(c => (c.sql as string).startsWith("UPDATE chat_messages_cipher"));
+    expect(update!.sql).toContain("kid = ?");
+    expect(update!.params![6]).toBe("room-1:epoch:2");
+  });
+
+  it("writes passthrough columns from the object or explicit values", async () => {
+    const db = new FakeDB();
+    const runtime = { db, userId: "u1", crypto: MockCrypto as any };
+    const pair = {
+      ...CHAT_MESSAGES_PAIR,
+      passthroughColumns: [{ name: "sent_at", type: "TEXT", value: (obj: any) => obj.sentAt }],
+    };
+
+    await insertEncrypted(runtime as any, pair, {
+      id: "m1",
+      bucketId: "room-1",
+      object: { content: "Hello", sentAt: "2025-01-01T00:00:00.000Z" }
+    });
+    const insert = db.execCalls.find(c => (c.sql as string).startsWith("INSERT INTO chat_messages_cipher"));
+    expect(insert!.sql).toContain("updated_at, sent_at");
+    expect(insert!.params![10]).toBe("2025-01-01T00:00:00.000Z");
+
+    // Plaintext updates leave the column alone unless given a value.
+    await updateEncrypted(runtime as any, pair, { id: "m1", bucketId: "room-1", plaintext: new Uint8Array([1]) });
+    expect(db.execCalls.filter(c => (c.sql as string).startsWith("UPDATE")).pop()!.sql).not.toContain("sent_at");
+    await updateEncrypted(runtime as any, pair, {
+      id: "m1",
+      bucketId: "room-1",
+      plaintext: new Uint8Array([1]),
+      passthrough: { sent_at: "2025-01-02T00:00:00.000Z" }
+    });
+    const update = db.execCalls.filter(c => (c.sql as string).startsWith("UPDATE")).pop()!;
+    expect(update.sql).toContain("sent_at = ?");
+    expect(update.params![6]).toBe("2025-01-02T00:00:00.000Z");
+  });
 });
@@ -15,6 +15,7 @@ describe("ensurePairsDDL", () => {
           { name: "content", type: "TEXT", notNull: true, defaultExpr: "''" },
           { name: "is_edited", type: "INTEGER", notNull: true, defaultExpr: "0" }
         ],
+        passthroughColumns: [{ name: "sent_at", type: "TEXT", notNull: true }],
         parsePlain: () => ({})
       }
     ]);
@@ -24,8 +25,79 @@ describe("ensurePairsDDL", () => {
     expect(ddl).toContain("CREATE TABLE IF NOT EXISTS chat_messages_plain (");
     expect(ddl).toContain("content TEXT NOT NULL DEFAULT ''");
     expect(ddl).toContain("is_edited INTEGER NOT NULL DEFAULT 0");
+    // Passthrough columns: nullable in the encrypted table, as declared in the mirror, and uploaded.
+    expect(ddl).toMatch(/chat_messages_cipher \([^;]*updated_at TEXT NOT NULL,\s+sent_at TEXT\s*\)/);
+    expect(ddl).toContain("sent_at TEXT NOT NULL");
+    expect(ddl).toContain("'sent_at', NEW.sent_at");
+    expect(ddl).toContain("CREATE TABLE IF NOT EXISTS chat_messages_plain_failures (");
+    expect(ddl).toContain("CREATE TABLE IF NOT EXISTS chat_messages_plain_checkpoints (");
     expect(ddl).toContain("CREATE TRIGGER IF NOT EXISTS chat_messages_cipher_insert");
     expect(ddl).toContain("CREATE TRIGGER IF NOT EXISTS chat_messages_cipher_update");
     expect(ddl).toContain("CREATE TRIGGER IF NOT EXISTS chat_messages_cipher_delete");
   });
+
+  describe("migrations", () => {
+    const PAIR = {
+      name: "chat_messages",
+      encryptedTable: "chat_messages_cipher",
+      mirrorTable: "chat_messages_plain",
+      mirrorColumns: [
+        { name: "content", type: "TEXT", notNull: true, defaultExpr: "''" },
+        { name: "is_edited", type: "INTEGER" }
+      ],
+      parsePlain: () => ({})
+    };
+    const BASE_COLUMNS = ["id", "user_id", "bucket_id", "updated_at"].map(name => ({ name, type: "TEXT", notnull: 0 }));
+
+    it("adds and drops mirror columns in place and re-decrypts rows for the new ones", async () => {
+      const db = new FakeDB();
+      db.getAllResults["PRAGMA table_info(chat_messages_plain)"] = [
+        ...BASE_COLUMNS,
+        { name: "content", type: "TEXT", notnull: 1 },
+        { name: "legacy", type: "TEXT", notnull: 0 }
+      ];
+      await ensurePairsDDL(db as any, [PAIR]);
+      const sql = db.execCalls.map(c => c.sql);
+      expect(sql).toContain("ALTER TABLE chat_messages_plain ADD COLUMN is_edited INTEGER");
+      expect(sql).toContain("ALTER TABLE chat_messages_plain DROP COLUMN legacy");
+      expect(sql).toContain("DELETE FROM chat_messages_plain_checkpoints");
+      expect(sql).not.toContain("DROP TABLE chat_messages_plain");
+      // First run against an install without metadata: triggers are recreated, and the pair recorded.
+      expect(sql.some(s => s.includes("DROP TRIGGER IF EXISTS chat_messages_cipher_insert;"))).toBe(true);
+      const meta = db.execCalls.find(c => c.sql.startsWith("INSERT OR REPLACE INTO encrypted_pairs_meta"));
+      expect(meta!.params!.slice(0, 2)).toEqual(["chat_messages", 1]);
+    });
+
+    it("rebuilds the mirror when a column changes type, and on a new mirrorVersion", async () => {
+      const db = new FakeDB();
+      db.getAllResults["PRAGMA table_info(chat_messages_plain)"] = [
+        ...BASE_COLUMNS,
+        { name: "content", type: "TEXT", notnull: 1 },
+        { name: "is_edited", type: "TEXT", notnull: 0 }
+      ];
+      await ensurePairsDDL(db as any, [{ ...PAIR, searchColumns: ["content"] }]);
+      let sql = db.execCalls.map(c => c.sql);
+      expect(sql).toContain("DROP TABLE IF EXISTS chat_messages_plain_fts");
+      expect(sql).toContain("DROP TABLE chat_messages_plain");
+      expect(sql).toContain("DELETE FROM chat_messages_plain_checkpoints");
+      const meta = db.execCalls.find(c => c.sql.startsWith("INSERT OR REPLACE INTO encrypted_pairs_meta"))!;
+
+      // Same columns and shape, new version: only the checkpoints go.
+      const next = new FakeDB();
+      next.getAllResults["PRAGMA table_info(chat_messages_plain)"] = [
+        ...BASE_COLUMNS,
+        { name: "content", type: "TEXT", notnull: 1 },
+        { name: "is_edited", type: "INTEGER", notnull: 0 }
+      ];
+      next.getAllResults["FROM encrypted_pairs_meta"] = [
+        { mirror_version: 1, encrypted_shape: meta.params![2], search_columns: meta.params![3] }
+      ];
+      await ensurePairsDDL(next as any, [{ ...PAIR, searchColumns: ["content"], mirrorVersion: 2 }]);
+      sql = next.execCalls.map(c => c.sql);
+      expect(sql).toContain("DELETE FROM chat_messages_plain_checkpoints");
+      expect(sql).not.toContain("DROP TABLE chat_messages_plain");
+      expect(sql.some(s => s.includes("DROP TRIGGER"))).toBe(false);
+      expect(sql.some(s => s.startsWith("ALTER TABLE"))).toBe(false);
+    });
+  });
 });
@@ -1,5 +1,13 @@
-import { describe, it, expect } from "vitest";
-import { startEncryptedMirrors } from "../replicator.js";
+import { describe, it, expect, vi } from "vitest";
+import {
+  AuthenticationFailedError,
+  KeyUnavailableError,
+  MalformedEnvelopeError,
+  UnsupportedAlgorithmError,
+} from "@crypto/interface";
+import { startEncryptedMirrors, startEncryptedMirrorSubscriptions } from "../replicator.js";
+import { buildRowAad } from "../aad.js";
+import { MemoryKeyRing } from "../keyring.js";
 import { FakeDB, MockCrypto } from "./fakes.js";
 
 const CHAT_MESSAGES_PAIR = {
@@ -46,7 +54,7 @@ describe("replicator", () => {
       }]
     });
 
-    const ins = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable}`));
+    const ins = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
     expect(ins).toBeTruthy();
     expect(ins!.params![0]).toBe("m1");
     expect(ins!.params![1]).toBe("u1");
@@ -72,7 +80,7 @@ describe("replicator", () => {
       }]
     });
     const updDelete = db.lastTx!.calls.find(c => (c.sql as string).startsWith(`DELETE FROM ${CHAT_MESSAGES_PAIR.mirrorTable}`));
-    const updInsert = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable}`));
+    const updInsert = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
     expect(updDelete).toBeTruthy();
     expect(updInsert).toBeTruthy();
     expect(updInsert!.params![4]).toBe("Hello again");
@@ -85,4 +93,541 @@ describe("replicator", () => {
 
     stop();
   });
+
+  it("rejects ciphertext copied into a different row", async () => {
+    const db = new FakeDB();
+    const stop = startEncryptedMirrors(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [CHAT_MESSAGES_PAIR],
+      { throttleMs: 0 }
+    );
+    const reg = db.queries.find(q => q.sql.includes("FROM chat_messages_cipher"))!;
+    const original = {
+      id: "m1",
+      user_id: "u1",
+      bucket_id: "room-1",
+      alg: "test/raw",
+      aad: buildRowAad(CHAT_MESSAGES_PAIR, "chat-message-v1", { id: "m1", user_id: "u1", bucket_id: "room-1" }),
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(JSON.stringify({ content: "Secret" }), "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      updated_at: "2025-01-01T00:00:00.000Z"
+    };
+
+    await reg.instance.emit({
+      added: [original, { ...original, id: "m2", bucket_id: "room-2" }]
+    });
+
+    const inserts = db.lastTx!.calls.filter(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+    expect(inserts.map(c => c.params![0])).toEqual(["m1"]);
+    stop();
+  });
+
+  it("only accepts static AAD rows while legacy AAD is allowed", async () => {
+    const legacyRow = {
+      id: "m1",
+      user_id: "u1",
+      bucket_id: "room-1",
+      alg: "test/raw",
+      aad: "chat-message-v1",
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(JSON.stringify({ content: "Old" }), "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      updated_at: "2025-01-01T00:00:00.000Z"
+    };
+
+    for (const acceptLegacyAad of [true, false]) {
+      const db = new FakeDB();
+      const stop = startEncryptedMirrors(
+        { db: db as any, userId: "u1", crypto: MockCrypto as any },
+        [{ ...CHAT_MESSAGES_PAIR, acceptLegacyAad }],
+        { throttleMs: 0 }
+      );
+      await db.queries[0].instance.emit({ added: [legacyRow] });
+      const ins = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+      expect(!!ins).toBe(acceptLegacyAad);
+      stop();
+    }
+  });
+
+  it("applies the subscription transform before writing the mirror", async () => {
+    const db = new FakeDB();
+    const stop = startEncryptedMirrorSubscriptions(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [{
+        pair: CHAT_MESSAGES_PAIR,
+        transform: async ({ values, row }) => ({ ...values, content: `${row.user_id}: ${values.content}` }),
+      }],
+      { throttleMs: 0 }
+    );
+    await db.queries[0].instance.emit({
+      added: [{
+        id: "m1",
+        user_id: "u1",
+        bucket_id: "room-1",
+        alg: "test/raw",
+        aad: null,
+        nonce_b64: "N",
+        cipher_b64: Buffer.from(JSON.stringify({ content: "Hi" }), "utf8").toString("base64"),
+        kdf_salt_b64: "",
+        updated_at: "2025-01-01T00:00:00.000Z"
+      }]
+    });
+    const ins = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+    expect(ins!.params![4]).toBe("u1: Hi");
+    stop();
+  });
+
+  it("picks each row's key from the key ring by kid and waits for missing keys", async () => {
+    const db = new FakeDB();
+    const keyed = (kid: string, prefix: string) => ({
+      keyId: kid,
+      encrypt: MockCrypto.encrypt,
+      async decrypt(env: { cB64: string }) {
+        const obj = JSON.parse(Buffer.from(env.cB64, "base64").toString("utf8"));
+        return new TextEncoder().encode(JSON.stringify({ content: `${prefix}${obj.content}` }));
+      }
+    });
+    const keyRing = new MemoryKeyRing([keyed("k1", "one:"), keyed("k2", "two:")], {
+      kidForRow: () => "k1",
+    });
+    const stop = startEncryptedMirrorSubscriptions(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [{ pair: { ...CHAT_MESSAGES_PAIR, tableShape: { kidColumn: "kid" } }, keyRing }],
+      { throttleMs: 0 }
+    );
+    expect(db.queries[0].sql).toContain("kid AS kid");
+
+    const row = (id: string, kid: string | null) => ({
+      id,
+      user_id: "u1",
+      bucket_id: "room-1",
+      alg: "test/raw",
+      aad: null,
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(JSON.stringify({ content: id }), "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      kid,
+      updated_at: "2025-01-01T00:00:00.000Z"
+    });
+    await db.queries[0].instance.emit({
+      added: [row("m1", null), row("m2", "k2"), row("m3", "k3")]
+    });
+
+    const inserts = db.lastTx!.calls.filter(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+    expect(inserts.map(c => c.params![4])).toEqual(["one:m1", "two:m2"]);
+    stop();
+  });
+
+  it("records rows that cannot be mirrored and re-drives them once they can", async () => {
+    const db = new FakeDB();
+    let parseable = false;
+    const ring = new MemoryKeyRing([]);
+    // Not a key notifier, so the row missing its key waits on the retry timer.
+    const keyRing = { resolve: (lookup: any) => ring.resolve(lookup) };
+    const stop = startEncryptedMirrorSubscriptions(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [{
+        pair: {
+          ...CHAT_MESSAGES_PAIR,
+          tableShape: { kidColumn: "kid" },
+          parsePlain: (args: any) => {
+            if (!parseable) throw new SyntaxError("bad payload");
+            return CHAT_MESSAGES_PAIR.parsePlain(args);
+          }
+        },
+        keyRing,
+      }],
+      { throttleMs: 0 }
+    );
+    const statuses: number[] = [];
+    stop.onStatus((status) => statuses.push(status.failures));
+
+    const row = (id: string, kid: string) => ({
+      id,
+      user_id: "u1",
+      bucket_id: "room-1",
+      alg: "test/raw",
+      aad: null,
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(JSON.stringify({ content: id }), "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      kid,
+      updated_at: "2025-01-01T00:00:00.000Z"
+    });
+    ring.add({ ...MockCrypto, keyId: "k1" } as any);
+    await db.queries[0].instance.emit({ added: [row("m1", "k1"), row("m2", "k2")] });
+
+    const failure = db.lastTx!.calls.find(c => (c.sql as string).startsWith("INSERT INTO chat_messages_plain_failures"));
+    expect(failure!.params!.slice(0, 4)).toEqual(["m1", "SyntaxError", "bad payload", 1]);
+    expect(stop.status()).toMatchObject({ pendingRetries: 1, failures: 1 });
+    expect(stop.status().tables.chat_messages_plain.lastSyncAt).toBeTruthy();
+    expect(statuses).toEqual([1]);
+
+    parseable = true;
+    ring.add({ ...MockCrypto, keyId: "k2" } as any);
+    expect(await stop.redrive()).toBe(2);
+    const inserts = db.lastTx!.calls.filter(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+    expect(inserts.map(c => c.params![4])).toEqual(["m1", "m2"]);
+    expect(db.lastTx!.calls.some(c => (c.sql as string).startsWith("DELETE FROM chat_messages_plain_failures"))).toBe(true);
+    expect(stop.status()).toMatchObject({ pendingRetries: 0, failures: 0 });
+    expect(statuses).toEqual([1, 0]);
+    stop();
+  });
+
+  it("records envelope errors right away and retries rows whose key is unavailable", async () => {
+    vi.useFakeTimers();
+    const db = new FakeDB();
+    let keySynced = false;
+    const crypto = {
+      async decrypt(env: { cB64: string }) {
+        const content = Buffer.from(env.cB64, "base64").toString("utf8");
+        if (content === "alg") throw new UnsupportedAlgorithmError("Unsupported alg: test/other");
+        if (content === "nonce") throw new MalformedEnvelopeError("nonce has the wrong length");
+        if (!keySynced) throw new KeyUnavailableError("key not synced yet");
+        return new TextEncoder().encode(JSON.stringify({ content }));
+      }
+    };
+    const stop = startEncryptedMirrors({ db: db as any, userId: "u1", crypto: crypto as any }, [CHAT_MESSAGES_PAIR], { throttleMs: 0 });
+    const row = (id: string, content: string) => ({
+      id,
+      user_id: "u1",
+      bucket_id: "room-1",
+      alg: "test/raw",
+      aad: null,
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(content, "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      updated_at: "2025-01-01T00:00:00.000Z"
+    });
+    try {
+      await db.queries[0].instance.emit({ added: [row("m1", "alg"), row("m2", "nonce"), row("m3", "later")] });
+      const failures = db.lastTx!.calls.filter(c => (c.sql as string).startsWith("INSERT INTO chat_messages_plain_failures"));
+      expect(failures.map(c => c.params!.slice(0, 2))).toEqual([
+        ["m1", "UnsupportedAlgorithmError"],
+        ["m2", "MalformedEnvelopeError"],
+      ]);
+      expect(stop.status()).toMatchObject({ pendingRetries: 1, failures: 2 });
+
+      keySynced = true;
+      db.lastTx = null;
+      await vi.advanceTimersByTimeAsync(500);
+      const ins = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+      expect([ins!.params![0], ins!.params![4]]).toEqual(["m3", "later"]);
+      expect(stop.status()).toMatchObject({ pendingRetries: 0, failures: 2 });
+    } finally {
+      stop();
+      vi.useRealTimers();
+    }
+  });
+
+  it("retries only the rows waiting on a key when the key ring announces it", async () => {
+    const db = new FakeDB();
+    const keyRing = new MemoryKeyRing([], {
+      kidForRow: (row) => (row.bucket_id === "room-2" ? "k3" : null),
+    });
+    const stop = startEncryptedMirrorSubscriptions(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [{ pair: { ...CHAT_MESSAGES_PAIR, tableShape: { kidColumn: "kid" } }, keyRing }],
+      { throttleMs: 0 }
+    );
+    const row = (id: string, bucket: string, kid: string | null) => ({
+      id,
+      user_id: "u1",
+      bucket_id: bucket,
+      alg: "test/raw",
+      aad: null,
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(JSON.stringify({ content: id }), "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      kid,
+      updated_at: "2025-01-01T00:00:00.000Z"
+    });
+    await db.queries[0].instance.emit({
+      added: [row("m1", "room-1", "k1"), row("m2", "room-1", "k2"), row("m3", "room-2", null)]
+    });
+    expect(stop.status().pendingRetries).toBe(3);
+
+    const mirroredAfter = async (announce: () => void) => {
+      db.lastTx = null;
+      announce();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return (db.lastTx?.calls ?? [])
+        .filter(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`))
+        .map(c => c.params![0]);
+    };
+    expect(await mirroredAfter(() => keyRing.add({ ...MockCrypto, keyId: "k1" } as any))).toEqual(["m1"]);
+    expect(await mirroredAfter(() => keyRing.add({ ...MockCrypto, keyId: "k3" } as any, { bucketId: "room-2" }))).toEqual(["m3"]);
+    expect(await mirroredAfter(() => keyRing.add({ ...MockCrypto, keyId: "k4" } as any, { bucketId: "room-3" }))).toEqual([]);
+    expect(stop.status().pendingRetries).toBe(1);
+    stop();
+  });
+
+  it("picks up a key announced after the row's lookup failed but before it was parked", async () => {
+    const db = new FakeDB();
+    const ring = new MemoryKeyRing();
+    const keyRing = {
+      resolve: (lookup: any) => {
+        const provider = ring.resolve(lookup);
+        // Arrives while the transaction that will park the row is still running.
+        if (!provider) void Promise.resolve().then(() => ring.add({ ...MockCrypto, keyId: "k1" } as any));
+        return provider;
+      },
+      onKeyAvailable: ring.onKeyAvailable.bind(ring),
+    };
+    const stop = startEncryptedMirrorSubscriptions(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [{ pair: { ...CHAT_MESSAGES_PAIR, tableShape: { kidColumn: "kid" } }, keyRing }],
+      { throttleMs: 0 }
+    );
+    await db.queries[0].instance.emit({
+      added: [{
+        id: "m1",
+        user_id: "u1",
+        bucket_id: "room-1",
+        alg: "test/raw",
+        aad: null,
+        nonce_b64: "N",
+        cipher_b64: Buffer.from(JSON.stringify({ content: "m1" }), "utf8").toString("base64"),
+        kdf_salt_b64: "",
+        kid: "k1",
+        updated_at: "2025-01-01T00:00:00.000Z"
+      }]
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const ins = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+    expect(ins!.params![0]).toBe("m1");
+    expect(stop.status().pendingRetries).toBe(0);
+    stop();
+  });
+
+  it("records rows their own key cannot authenticate instead of waiting for another key", async () => {
+    const db = new FakeDB();
+    const rejecting = {
+      keyId: "k1",
+      encrypt: MockCrypto.encrypt,
+      async decrypt() {
+        throw new AuthenticationFailedError();
+      }
+    };
+    // Rows without a kid fall back to k1, so a later key may still be the right one for them.
+    const keyRing = new MemoryKeyRing([rejecting as any], { kidForRow: () => "k1" });
+    const stop = startEncryptedMirrorSubscriptions(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [{ pair: { ...CHAT_MESSAGES_PAIR, tableShape: { kidColumn: "kid" } }, keyRing }],
+      { throttleMs: 0 }
+    );
+    const row = (id: string, kid: string | null) => ({
+      id,
+      user_id: "u1",
+      bucket_id: "room-1",
+      alg: "test/raw",
+      aad: null,
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(JSON.stringify({ content: id }), "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      kid,
+      updated_at: "2025-01-01T00:00:00.000Z"
+    });
+    await db.queries[0].instance.emit({ added: [row("m1", "k1"), row("m2", null)] });
+
+    const failures = db.lastTx!.calls.filter(c => (c.sql as string).startsWith("INSERT INTO chat_messages_plain_failures"));
+    expect(failures.map(c => c.params!.slice(0, 2))).toEqual([["m1", "AuthenticationFailedError"]]);
+    expect(stop.status()).toMatchObject({ pendingRetries: 1, failures: 1 });
+    stop();
+  });
+
+  it("skips rows whose checkpoint matches after a restart and rebuilds on demand", async () => {
+    const row = (id: string, content: string) => ({
+      id,
+      user_id: "u1",
+      bucket_id: "room-1",
+      alg: "test/raw",
+      aad: null,
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(JSON.stringify({ content }), "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      updated_at: "2025-01-01T00:00:00.000Z"
+    });
+    const mirrored = (db: FakeDB) => (db.lastTx?.calls ?? [])
+      .filter(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`))
+      .map(c => c.params![0]);
+    const start = (db: FakeDB) => startEncryptedMirrors(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [CHAT_MESSAGES_PAIR],
+      { throttleMs: 0 }
+    );
+
+    const first = new FakeDB();
+    const stopFirst = start(first);
+    await first.queries[0].instance.emit({ added: [row("m1", "Hello")] });
+    const saved = first.lastTx!.calls.find(c => (c.sql as string).includes("INTO chat_messages_plain_checkpoints"));
+    expect(saved!.params![0]).toBe("m1");
+    stopFirst();
+
+    const db = new FakeDB();
+    db.getAllResults["FROM chat_messages_plain_checkpoints"] = [{ id: "m1", fingerprint: saved!.params![1] }];
+    const stop = start(db);
+    await db.queries[0].instance.emit({ added: [row("m1", "Hello"), row("m2", "Hi")] });
+    expect(mirrored(db)).toEqual(["m2"]);
+
+    db.lastTx = null;
+    await db.queries[0].instance.emit({ updated: [{ current: row("m1", "Hello again") }] });
+    expect(mirrored(db)).toEqual(["m1"]);
+
+    db.getAllResults["FROM chat_messages_cipher"] = [row("m1", "Hello again"), row("m2", "Hi")];
+    expect(await stop.rebuildMirror(CHAT_MESSAGES_PAIR)).toBe(2);
+    expect(db.lastTx!.calls[0].sql).toBe("DELETE FROM chat_messages_plain_checkpoints");
+    expect(mirrored(db)).toEqual(["m1", "m2"]);
+    stop();
+  });
+
+  it("keeps checkpoints of a rolled back transaction out of the skip list", async () => {
+    const db = new FakeDB();
+    const stop = startEncryptedMirrors(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [CHAT_MESSAGES_PAIR],
+      { throttleMs: 0 }
+    );
+    const row = {
+      id: "m1",
+      user_id: "u1",
+      bucket_id: "room-1",
+      alg: "test/raw",
+      aad: null,
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(JSON.stringify({ content: "Hello" }), "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      updated_at: "2025-01-01T00:00:00.000Z"
+    };
+    const commit = db.writeTransaction.bind(db);
+    db.writeTransaction = async (fn) => {
+      await commit(fn);
+      throw new Error("database is locked");
+    };
+    await expect(db.queries[0].instance.emit({ added: [row] })).rejects.toThrow("database is locked");
+
+    db.writeTransaction = commit;
+    db.lastTx = null;
+    await db.queries[0].instance.emit({ added: [row] });
+    const ins = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+    expect(ins!.params![0]).toBe("m1");
+    stop();
+  });
+
+  it("records failures and queued retries only once their transaction commits", async () => {
+    vi.useFakeTimers();
+    const db = new FakeDB();
+    const crypto = {
+      async decrypt(env: { cB64: string }) {
+        const content = Buffer.from(env.cB64, "base64").toString("utf8");
+        if (content === "nonce") throw new MalformedEnvelopeError("nonce has the wrong length");
+        throw new KeyUnavailableError("key not synced yet");
+      }
+    };
+    const stop = startEncryptedMirrors({ db: db as any, userId: "u1", crypto: crypto as any }, [CHAT_MESSAGES_PAIR], { throttleMs: 0 });
+    const row = (id: string, content: string) => ({
+      id,
+      user_id: "u1",
+      bucket_id: "room-1",
+      alg: "test/raw",
+      aad: null,
+      nonce_b64: "N",
+      cipher_b64: Buffer.from(content, "utf8").toString("base64"),
+      kdf_salt_b64: "",
+      updated_at: "2025-01-01T00:00:00.000Z"
+    });
+    const commit = db.writeTransaction.bind(db);
+    try {
+      db.writeTransaction = async (fn) => {
+        await commit(fn);
+        throw new Error("database is locked");
+      };
+      await expect(db.queries[0].instance.emit({ added: [row("m1", "nonce"), row("m2", "later")] })).rejects.toThrow("database is locked");
+      expect(stop.status()).toMatchObject({ pendingRetries: 0, failures: 0 });
+
+      db.writeTransaction = commit;
+      await db.queries[0].instance.emit({ added: [row("m1", "nonce"), row("m2", "later")] });
+      expect(stop.status()).toMatchObject({ pendingRetries: 1, failures: 1 });
+    } finally {
+      stop();
+      vi.useRealTimers();
+    }
+  });
+
+  it("selects passthrough columns and copies them verbatim into the mirror", async () => {
+    const db = new FakeDB();
+    const pair = {
+      ...CHAT_MESSAGES_PAIR,
+      passthroughColumns: [{ name: "sent_at", type: "TEXT", notNull: true }],
+      // parsePlain only fills in passthrough values the row does not have.
+      parsePlain: () => ({ content: "Hello", is_edited: 0, sent_at: "from payload" }),
+    };
+    const stop = startEncryptedMirrors(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [pair],
+      { throttleMs: 0 }
+    );
+    expect(db.queries[0].sql).toContain("sent_at,");
+
+    await db.queries[0].instance.emit({
+      added: [{
+        id: "m1",
+        user_id: "u1",
+        bucket_id: "room-1",
+        alg: "test/raw",
+        aad: null,
+        nonce_b64: "N",
+        cipher_b64: Buffer.from("{}", "utf8").toString("base64"),
+        kdf_salt_b64: "",
+        updated_at: "2025-01-01T00:00:00.000Z",
+        sent_at: "2025-01-01T00:00:00.500Z"
+      }]
+    });
+    const ins = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+    expect(ins!.sql).toContain("is_edited, sent_at)");
+    expect(ins!.params![6]).toBe("2025-01-01T00:00:00.500Z");
+    stop();
+  });
+
+  it("hands transforms the decrypted values alongside differing passthrough values", async () => {
+    const db = new FakeDB();
+    const pair = {
+      ...CHAT_MESSAGES_PAIR,
+      passthroughColumns: [{ name: "sent_at", type: "TEXT", notNull: true }],
+      parsePlain: ({ plaintext }: any) => ({ content: "Hello", is_edited: 0, ...JSON.parse(new TextDecoder().decode(plaintext)) }),
+    };
+    const seen: any[] = [];
+    const stop = startEncryptedMirrorSubscriptions(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [{
+        pair,
+        transform: ({ values, decrypted }) => {
+          seen.push({ stored: values.sent_at, signed: decrypted.sent_at });
+          return values;
+        },
+      }],
+      { throttleMs: 0 }
+    );
+    await db.queries[0].instance.emit({
+      added: [{
+        id: "m1",
+        user_id: "u1",
+        bucket_id: "room-1",
+        alg: "test/raw",
+        aad: null,
+        nonce_b64: "N",
+        cipher_b64: Buffer.from(JSON.stringify({ sent_at: "2025-01-01T00:00:00.500Z" }), "utf8").toString("base64"),
+        kdf_salt_b64: "",
+        updated_at: "2025-01-01T00:00:00.000Z",
+        // Rewritten by the server after the sender signed the payload.
+        sent_at: "2024-12-31T00:00:00.000Z"
+      }]
+    });
+    expect(seen).toEqual([{ stored: "2024-12-31T00:00:00.000Z", signed: "2025-01-01T00:00:00.500Z" }]);
+    const ins = db.lastTx!.calls.find(c => (c.sql as string).includes(`INSERT INTO ${CHAT_MESSAGES_PAIR.mirrorTable} (`));
+    expect(ins!.params![6]).toBe("2024-12-31T00:00:00.000Z");
+    stop();
+  });
 });
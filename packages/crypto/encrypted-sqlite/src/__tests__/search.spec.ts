@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { ensurePairsDDL } from "../pairs.js";
+import { startEncryptedMirrors } from "../replicator.js";
+import { searchMirror, splitSnippet, toMatchQuery, SNIPPET_MATCH_END, SNIPPET_MATCH_START } from "../search.js";
+import { FakeDB, MockCrypto } from "./fakes.js";
+
+const SEARCHABLE_PAIR = {
+  name: "chat_messages",
+  encryptedTable: "chat_messages_cipher",
+  mirrorTable: "chat_messages_plain",
+  mirrorColumns: [{ name: "content", type: "TEXT", notNull: true, defaultExpr: "''" }],
+  searchColumns: ["content"],
+  parsePlain: ({ plaintext }: any) => ({ content: JSON.parse(new TextDecoder().decode(plaintext)).content }),
+};
+
+describe("search", () => {
+  it("creates and backfills the FTS table, and indexes rows as they are mirrored", async () => {
+    const db = new FakeDB();
+    await ensurePairsDDL(db as any, [SEARCHABLE_PAIR]);
+    const ddl = db.execCalls.map(c => c.sql).join("\n---\n");
+    expect(ddl).toContain("CREATE VIRTUAL TABLE IF NOT EXISTS chat_messages_plain_fts USING fts5(");
+    expect(ddl).toContain("SELECT id, bucket_id, content FROM chat_messages_plain");
+
+    const stop = startEncryptedMirrors(
+      { db: db as any, userId: "u1", crypto: MockCrypto as any },
+      [SEARCHABLE_PAIR],
+      { throttleMs: 0 }
+    );
+    await db.queries[0].instance.emit({
+      added: [{
+        id: "m1",
+        user_id: "u1",
+        bucket_id: "room-1",
+        alg: "test/raw",
+        aad: null,
+        nonce_b64: "N",
+        cipher_b64: Buffer.from(JSON.stringify({ content: "Hello there" }), "utf8").toString("base64"),
+        kdf_salt_b64: "",
+        updated_at: "2025-01-01T00:00:00.000Z"
+      }]
+    });
+    const indexed = db.lastTx!.calls.find(c => (c.sql as string).startsWith("INSERT INTO chat_messages_plain_fts"));
+    expect(indexed!.params).toEqual(["m1", "room-1", "Hello there"]);
+
+    db.lastTx = null;
+    await db.queries[0].instance.emit({ removed: [{ id: "m1" }] });
+    expect(db.lastTx!.calls.some(c => c.sql === "DELETE FROM chat_messages_plain_fts WHERE id = ?")).toBe(true);
+    stop();
+  });
+
+  it("quotes user input as prefix terms and scopes searches to a bucket", async () => {
+    expect(toMatchQuery('  hello "world" OR  ')).toBe('"hello"* """world"""* "OR"*');
+    expect(toMatchQuery("   ")).toBeNull();
+
+    const db = new FakeDB();
+    db.getAllResults["MATCH"] = [{ id: "m1", bucket_id: "room-1", content: "Hello there", search_snippet: `${SNIPPET_MATCH_START}Hello${SNIPPET_MATCH_END} there` }];
+    const hits = await searchMirror(db as any, SEARCHABLE_PAIR, "hel", { bucketId: "room-1" });
+    const call = db.execCalls[db.execCalls.length - 1];
+    expect(call.sql).toContain("chat_messages_plain_fts.bucket_id = ?");
+    expect(call.params!.slice(3)).toEqual(['"hel"*', "room-1", 50]);
+    expect(hits[0].row).toEqual({ id: "m1", bucket_id: "room-1", content: "Hello there" });
+    expect(splitSnippet(hits[0].snippet)).toEqual([
+      { text: "Hello", match: true },
+      { text: " there", match: false },
+    ]);
+    expect(await searchMirror(db as any, SEARCHABLE_PAIR, " ")).toEqual([]);
+  });
+});
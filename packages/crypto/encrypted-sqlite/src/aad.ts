@@ -0,0 +1,80 @@
+import { CryptoError } from "@crypto/interface";
+import type { EncryptedPairConfig } from "./types.js";
+
+/** Marker prefix for AAD strings derived from row identity (see `buildRowAad`). */
+export const ROW_AAD_PREFIX = "row-aad:v1";
+
+/** Row identity fields that get bound into the AAD. */
+export type RowAadIdentity = {
+  id: string;
+  user_id: string;
+  bucket_id: string | null;
+};
+
+export type ParsedRowAad = {
+  base: string;
+  table: string;
+  id: string;
+  userId: string;
+  bucketId: string | null;
+};
+
+/** Raised when a row's stored AAD does not match the row it was found in. */
+export class AadMismatchError extends CryptoError {
+  constructor(message: string) {
+    super(message);
+    this.name = "AadMismatchError";
+  }
+}
+
+/** Whether new writes for this pair bind row identity into the AAD (default: true). */
+export function isRowAadBound(pair: EncryptedPairConfig): boolean {
+  return (pair.aadBinding ?? "row") === "row";
+}
+
+/**
+ * Build the effective AAD for a row: the pair-level label plus table name, row id,
+ * owner and bucket. Each part is URI-encoded so the `|` separator stays unambiguous.
+ */
+export function buildRowAad(
+  pair: EncryptedPairConfig,
+  base: string | undefined,
+  row: RowAadIdentity,
+): string {
+  const parts = [base ?? "", pair.encryptedTable, row.id, row.user_id, row.bucket_id ?? ""];
+  return [ROW_AAD_PREFIX, ...parts.map(encodeURIComponent)].join("|");
+}
+
+/** Parse an AAD produced by `buildRowAad`; returns null for static (legacy) AAD strings. */
+export function parseRowAad(aad: string | null | undefined): ParsedRowAad | null {
+  if (!aad || !aad.startsWith(`${ROW_AAD_PREFIX}|`)) return null;
+  const parts = aad.split("|").slice(1);
+  if (parts.length !== 5) return null;
+  const [base, table, id, userId, bucketId] = parts.map(decodeURIComponent);
+  return { base, table, id, userId, bucketId: bucketId === "" ? null : bucketId };
+}
+
+/**
+ * Resolve the AAD to decrypt `row` with. For row-bound pairs the AAD is recomputed from
+ * the row's own identity, so ciphertext copied from another row or bucket is rejected.
+ * Rows still carrying a static AAD are accepted only while `acceptLegacyAad` is enabled.
+ */
+export function resolveDecryptAad(
+  pair: EncryptedPairConfig,
+  row: RowAadIdentity & { aad?: string | null },
+): string | undefined {
+  const stored = row.aad ?? undefined;
+  if (!isRowAadBound(pair)) return stored;
+
+  const parsed = parseRowAad(stored);
+  if (!parsed) {
+    if (pair.acceptLegacyAad ?? true) return stored;
+    throw new AadMismatchError(`row ${row.id} in ${pair.encryptedTable} has no row-bound AAD`);
+  }
+
+  const expected = buildRowAad(pair, parsed.base, row);
+  if (expected !== stored) {
+    throw new AadMismatchError(`row ${row.id} in ${pair.encryptedTable} carries AAD bound to another row`);
+  }
+  return expected;
+}
@@ -0,0 +1,110 @@
+import { bytesToBase64 } from "@crypto/interface";
+import sodium from "libsodium-wrappers";
+import type { BlindIndexDef, BlindIndexKeySource, EncryptedPairConfig, EncryptedRuntime } from "./types.js";
+
+/** SQL condition for the default mirror query, e.g. from `blindIndexFilter`. */
+export type MirrorQueryFilter = { sql: string; parameters?: any[] };
+
+type BlindIndexedPair = Pick<EncryptedPairConfig, "name" | "blindIndexes">;
+
+export function blindIndexColumn(def: Pick<BlindIndexDef, "name" | "column">): string {
+  return def.column ?? `${def.name}_bidx`;
+}
+
+/** Encrypted-table columns holding a pair's blind indexes. */
+export function blindIndexColumns(pair: Pick<EncryptedPairConfig, "blindIndexes">): string[] {
+  return (pair.blindIndexes ?? []).map(blindIndexColumn);
+}
+
+export function normalizeBlindIndexValue(value: string): string {
+  return value.normalize("NFKC").trim().toLowerCase();
+}
+
+function isBlindIndexKeySource(value: unknown): value is BlindIndexKeySource {
+  return typeof (value as BlindIndexKeySource | null)?.blindIndexKey === "function";
+}
+
+function findBlindIndex(pair: BlindIndexedPair, name: string): BlindIndexDef {
+  const def = pair.blindIndexes?.find((d) => d.name === name);
+  if (!def) throw new Error(`${pair.name} has no blind index "${name}"`);
+  return def;
+}
+
+/** The pair's index key: one per pair, derived from the runtime's key material. */
+async function pairKey(runtime: Pick<EncryptedRuntime, "crypto" | "blindIndexKeys">, pair: BlindIndexedPair) {
+  const source = runtime.blindIndexKeys ?? (isBlindIndexKeySource(runtime.crypto) ? runtime.crypto : null);
+  if (!source) {
+    throw new Error(`${pair.name} has blind indexes but the runtime has no blindIndexKeys`);
+  }
+  return source.blindIndexKey(pair.name);
+}
+
+function digest(key: Uint8Array, def: BlindIndexDef, value: string): string {
+  const normalized = (def.normalize ?? normalizeBlindIndexValue)(value);
+  // The index name is mixed in so equal values in different indexes of a pair do not match.
+  return bytesToBase64(sodium.crypto_auth(sodium.from_string(`${def.name}\u0000${normalized}`), key));
+}
+
+/** Blind index token for `value`, as stored in the index column; null stays null. */
+export async function computeBlindIndex(
+  runtime: Pick<EncryptedRuntime, "crypto" | "blindIndexKeys">,
+  pair: BlindIndexedPair,
+  name: string,
+  value: string | null | undefined,
+): Promise<string | null> {
+  const def = findBlindIndex(pair, name);
+  if (value == null) return null;
+  await sodium.ready;
+  return digest(await pairKey(runtime, pair), def, value);
+}
+
+/**
+ * Columns and tokens to write for a row. `explicit` values win; otherwise `BlindIndexDef.value`
+ * reads them from `object`. Indexes with neither are omitted (the caller decides what that means).
+ */
+export async function blindIndexValues<T>(
+  runtime: Pick<EncryptedRuntime, "crypto" | "blindIndexKeys">,
+  pair: Pick<EncryptedPairConfig<T>, "name" | "blindIndexes">,
+  args: { object?: T; explicit?: Record<string, string | null> },
+): Promise<{ columns: string[]; params: (string | null)[] }> {
+  const columns: string[] = [];
+  const params: (string | null)[] = [];
+  if (!pair.blindIndexes?.length) return { columns, params };
+  await sodium.ready;
+  let key: Uint8Array | null = null;
+  for (const def of pair.blindIndexes) {
+    let value: string | null | undefined;
+    if (args.explicit && def.name in args.explicit) value = args.explicit[def.name];
+    else if (args.object != null && def.value) value = def.value(args.object);
+    else continue;
+    columns.push(blindIndexColumn(def));
+    if (value == null) {
+      params.push(null);
+      continue;
+    }
+    key ??= await pairKey(runtime, pair);
+    params.push(digest(key, def, value));
+  }
+  return { columns, params };
+}
+
+/**
+ * Equality condition on one or more blind indexes, for `MirrorSubscriptionConfig.filter` or
+ * any query on the encrypted table. Compares the stored token, so rows written under a
+ * different key do not match.
+ */
+export async function blindIndexFilter(
+  runtime: Pick<EncryptedRuntime, "crypto" | "blindIndexKeys">,
+  pair: BlindIndexedPair,
+  match: Record<string, string>,
+): Promise<MirrorQueryFilter> {
+  const names = Object.keys(match);
+  if (names.length === 0) throw new Error("blindIndexFilter needs at least one value");
+  const conditions: string[] = [];
+  const parameters: string[] = [];
+  for (const name of names) {
+    conditions.push(`${blindIndexColumn(findBlindIndex(pair, name))} = ?`);
+    parameters.push((await computeBlindIndex(runtime, pair, name, match[name]))!);
+  }
+  return { sql: conditions.join(" AND "), parameters };
+}
@@ -0,0 +1,60 @@
+import type { AbstractPowerSyncDatabase } from "@powersync/web";
+import { bytesToBase64 } from "@crypto/interface";
+import sodium from "libsodium-wrappers";
+import type { EncryptedPairConfig } from "./types.js";
+
+/**
+ * Local-only table of a pair recording, per row id, a fingerprint of the encrypted row its
+ * mirror row was decrypted from; created by `ensurePairsDDL`.
+ */
+export function checkpointsTable(pair: Pick<EncryptedPairConfig, "mirrorTable">): string {
+  return `${pair.mirrorTable}_checkpoints`;
+}
+
+export function checkpointsTableDDL(pair: Pick<EncryptedPairConfig, "mirrorTable">): string {
+  return `
+      CREATE TABLE IF NOT EXISTS ${checkpointsTable(pair)} (
+        id TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL
+      );
+      `;
+}
+
+/** BLAKE2b digest of a row's comparator value; call after `sodium.ready`. */
+export function rowFingerprint(compareBy: string): string {
+  return bytesToBase64(sodium.crypto_generichash(16, sodium.from_string(compareBy)));
+}
+
+export async function loadCheckpoints(
+  db: Pick<AbstractPowerSyncDatabase, "getAll">,
+  pair: Pick<EncryptedPairConfig, "mirrorTable">,
+): Promise<Map<string, string>> {
+  await sodium.ready;
+  const rows = await db.getAll<{ id: string; fingerprint: string }>(
+    `SELECT id, fingerprint FROM ${checkpointsTable(pair)}`,
+  );
+  return new Map(rows.map((row) => [row.id, row.fingerprint]));
+}
+
+export function saveCheckpointStatement(pair: Pick<EncryptedPairConfig, "mirrorTable">, id: string, fingerprint: string) {
+  return {
+    sql: `INSERT OR REPLACE INTO ${checkpointsTable(pair)} (id, fingerprint) VALUES (?, ?)`,
+    params: [id, fingerprint],
+  };
+}
+
+export function clearCheckpointStatement(pair: Pick<EncryptedPairConfig, "mirrorTable">, id: string) {
+  return { sql: `DELETE FROM ${checkpointsTable(pair)} WHERE id = ?`, params: [id] };
+}
+
+/**
+ * Forget which rows the mirror is up to date with, so the next start of its subscription
+ * decrypts every row again (e.g. after `parsePlain` changed). Running subscriptions use
+ * `EncryptedMirrorHandle.rebuildMirror` instead.
+ */
+export async function rebuildMirror(
+  db: Pick<AbstractPowerSyncDatabase, "execute">,
+  pair: Pick<EncryptedPairConfig, "mirrorTable">,
+): Promise<void> {
+  await db.execute(`DELETE FROM ${checkpointsTable(pair)}`);
+}
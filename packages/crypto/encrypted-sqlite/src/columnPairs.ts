@@ -0,0 +1,301 @@
+import type { CryptoProvider, KeyId } from "@crypto/interface";
+import {
+  KeyUnavailableError,
+  MalformedEnvelopeError,
+  decodeEnvelope,
+  encodeEnvelope,
+  isEncodedEnvelope,
+} from "@crypto/interface";
+import type { EncryptedColumnDef, EncryptedColumnPairConfig, EncryptedRuntime, MirrorColumnDef } from "./types.js";
+import { utf8 } from "./types.js";
+import { clearFailureStatement, recordFailureStatement } from "./failures.js";
+import type { KeyAvailabilityNotifier, KeyAvailableEvent } from "./keyring.js";
+
+/** Marker prefix for AAD strings bound to one column of one row (see `buildColumnAad`). */
+export const COLUMN_AAD_PREFIX = "column-aad:v1";
+
+const textDecoder = new TextDecoder();
+
+type ColumnRow = Record<string, any> & { id: string };
+
+type ResolveColumnCryptoFn = (args: {
+  row: ColumnRow;
+  column: string;
+  kid: KeyId | null;
+  pair: EncryptedColumnPairConfig;
+  runtime: EncryptedRuntime;
+}) => CryptoProvider | null | undefined | Promise<CryptoProvider | null | undefined>;
+
+export type ColumnMirrorOptions = {
+  throttleMs?: number;
+  /** Picks the provider for each value, e.g. by the `kid` in its envelope; falls back to `runtime.crypto`. */
+  resolveCrypto?: ResolveColumnCryptoFn;
+  /**
+   * Rows that raise `KeyUnavailableError` are parked until this announces their key
+   * (a `MemoryKeyRing` does as keys are added); without one they are retried with backoff.
+   */
+  keyNotifier?: KeyAvailabilityNotifier;
+};
+
+const MAX_RETRIES = 120;
+const BASE_RETRY_DELAY_MS = 500;
+
+/**
+ * AAD for one column of one row: the pair label plus table, column and row id, so a value
+ * copied into another column or row no longer decrypts.
+ */
+export function buildColumnAad(pair: EncryptedColumnPairConfig, column: string, id: string): string {
+  const parts = [pair.aad ?? "", pair.table, column, id];
+  return [COLUMN_AAD_PREFIX, ...parts.map(encodeURIComponent)].join("|");
+}
+
+function encodeValue(col: EncryptedColumnDef, value: unknown): Uint8Array {
+  return col.encode ? col.encode(value) : utf8(JSON.stringify(value));
+}
+
+function decodeValue(col: EncryptedColumnDef, plain: Uint8Array): unknown {
+  return col.decode ? col.decode(plain) : JSON.parse(textDecoder.decode(plain));
+}
+
+/** Mirror columns of a column-mode pair: decrypted values, then plain columns. */
+export function columnPairMirrorColumns(pair: EncryptedColumnPairConfig): MirrorColumnDef[] {
+  return [...pair.encryptedColumns, ...(pair.plainColumns ?? [])];
+}
+
+/**
+ * Encrypt the pair's encrypted columns among `values`; other values are returned unchanged.
+ * NULL stays NULL so it can still be queried.
+ */
+export async function encryptColumnValues(
+  runtime: Pick<EncryptedRuntime, "crypto">,
+  pair: EncryptedColumnPairConfig,
+  id: string,
+  values: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const out: Record<string, unknown> = { ...values };
+  for (const col of pair.encryptedColumns) {
+    if (!(col.name in values)) continue;
+    const value = values[col.name];
+    if (value == null) {
+      out[col.name] = null;
+      continue;
+    }
+    const env = await runtime.crypto.encrypt(encodeValue(col, value), buildColumnAad(pair, col.name, id));
+    out[col.name] = encodeEnvelope(env);
+  }
+  return out;
+}
+
+export async function insertEncryptedColumns(
+  runtime: Pick<EncryptedRuntime, "db" | "crypto">,
+  pair: EncryptedColumnPairConfig,
+  args: { id: string; values: Record<string, unknown> },
+) {
+  const values = await encryptColumnValues(runtime, pair, args.id, args.values);
+  const names = Object.keys(values);
+  await runtime.db.execute(
+    `INSERT INTO ${pair.table} (id${names.map((n) => `, ${n}`).join("")}) VALUES (?${", ?".repeat(names.length)})`,
+    [args.id, ...names.map((n) => values[n] ?? null)]
+  );
+}
+
+/** Update the given columns only; the rest of the row is left as is. */
+export async function updateEncryptedColumns(
+  runtime: Pick<EncryptedRuntime, "db" | "crypto">,
+  pair: EncryptedColumnPairConfig,
+  args: { id: string; values: Record<string, unknown> },
+) {
+  const values = await encryptColumnValues(runtime, pair, args.id, args.values);
+  const names = Object.keys(values);
+  if (names.length === 0) return;
+  await runtime.db.execute(
+    `UPDATE ${pair.table} SET ${names.map((n) => `${n} = ?`).join(", ")} WHERE id = ?`,
+    [...names.map((n) => values[n] ?? null), args.id]
+  );
+}
+
+/**
+ * Decrypt one row's encrypted columns. NULL stays NULL. Any other value that is not an
+ * envelope is rejected, since anyone who can write the row could put plaintext there;
+ * pairs with `acceptLegacyPlaintext` copy it as is (e.g. written before the column was encrypted).
+ */
+async function decryptColumnRow(
+  runtime: EncryptedRuntime,
+  pair: EncryptedColumnPairConfig,
+  row: ColumnRow,
+  resolveCrypto?: ResolveColumnCryptoFn,
+): Promise<Record<string, unknown>> {
+  const values: Record<string, unknown> = {};
+  for (const col of pair.encryptedColumns) {
+    const stored = row[col.name];
+    if (stored == null) {
+      values[col.name] = null;
+      continue;
+    }
+    if (!isEncodedEnvelope(stored)) {
+      if (!pair.acceptLegacyPlaintext) {
+        throw new MalformedEnvelopeError(`${pair.table}.${col.name} of row ${row.id} is not an encrypted value`);
+      }
+      values[col.name] = stored;
+      continue;
+    }
+    const aad = buildColumnAad(pair, col.name, row.id);
+    const env = decodeEnvelope(stored, aad);
+    const kid = env.header.kid ?? null;
+    let provider: CryptoProvider | null | undefined = runtime.crypto;
+    if (resolveCrypto) {
+      provider = (await resolveCrypto({ row, column: col.name, kid, pair, runtime })) ?? runtime.crypto;
+    }
+    if (!provider) {
+      throw new KeyUnavailableError(kid ? `key ${kid} not available yet` : "crypto provider unavailable", { kid });
+    }
+    values[col.name] = decodeValue(col, await provider.decrypt(env, aad));
+  }
+  for (const col of pair.plainColumns ?? []) {
+    values[col.name] = row[col.name] ?? null;
+  }
+  return values;
+}
+
+/**
+ * Keep the mirrors of column-mode pairs up to date with their tables. Rows whose key is not
+ * available yet are retried as with full pairs; other failures are recorded in
+ * `<mirror>_failures` and tried again when the row changes or the mirrors restart.
+ * Returns a function that stops every subscription.
+ */
+export function startEncryptedColumnMirrors(
+  runtime: EncryptedRuntime,
+  pairs: EncryptedColumnPairConfig[],
+  opts?: ColumnMirrorOptions,
+) {
+  const { db } = runtime;
+  const subs: Array<() => void> = [];
+  const keyNotifier = opts?.keyNotifier;
+
+  for (const pair of pairs) {
+    const names = columnPairMirrorColumns(pair).map((c) => c.name);
+    const insertSql = `INSERT OR REPLACE INTO ${pair.mirrorTable} (id, ${names.join(", ")}) VALUES (?${", ?".repeat(names.length)})`;
+    const query = db.query<ColumnRow>({ sql: `SELECT id, ${names.join(", ")} FROM ${pair.table}`, parameters: [] });
+
+    type Waiting = { row: ColumnRow; attempt: number; kid: KeyId | null; timeout?: ReturnType<typeof setTimeout> };
+    // Rows waiting for a key, by id.
+    const waiting = new Map<string, Waiting>();
+    // Keys announced while a mirror transaction is running, numbered so each run only
+    // checks the ones that arrived after it started.
+    const announced: Array<KeyAvailableEvent & { seq: number }> = [];
+    let announcedSeq = 0;
+    let running = 0;
+    const waitsFor = (kid: KeyId | null, event: KeyAvailableEvent) => !kid || kid === event.kid;
+
+    const cancel = (id: string) => {
+      const entry = waiting.get(id);
+      if (entry?.timeout) clearTimeout(entry.timeout);
+      waiting.delete(id);
+    };
+
+    const park = (row: ColumnRow, attempt: number, kid: KeyId | null, since: number) => {
+      cancel(row.id);
+      // Announced after the failed lookup but before the row was parked: nothing would wake it.
+      if (announced.some((event) => event.seq > since && waitsFor(kid, event))) {
+        void retry([{ row, attempt: attempt + 1 }]);
+        return;
+      }
+      const entry: Waiting = { row, attempt, kid };
+      waiting.set(row.id, entry);
+      if (keyNotifier) return;
+      entry.timeout = setTimeout(() => {
+        if (waiting.get(row.id) !== entry) return;
+        waiting.delete(row.id);
+        void retry([{ row, attempt: attempt + 1 }]);
+      }, Math.min(BASE_RETRY_DELAY_MS * attempt, 5_000));
+    };
+
+    /** Mirror rows and drop removed ones; parking and cancelling apply once the transaction commits. */
+    const mirrorRows = async (work: Array<{ row: ColumnRow; attempt: number }>, removed: readonly ColumnRow[] = []) => {
+      const since = announcedSeq;
+      const effects: Array<() => void> = [];
+      running++;
+      try {
+        await db.writeTransaction(async (tx) => {
+          for (const { row, attempt } of work) {
+            try {
+              const values = await decryptColumnRow(runtime, pair, row, opts?.resolveCrypto);
+              await tx.execute(insertSql, [row.id, ...names.map((n) => values[n] ?? null)]);
+              const cleared = clearFailureStatement(pair, row.id);
+              await tx.execute(cleared.sql, cleared.params);
+              effects.push(() => cancel(row.id));
+            } catch (err) {
+              if (err instanceof KeyUnavailableError && attempt < MAX_RETRIES) {
+                effects.push(() => park(row, attempt, err.kid, since));
+                continue;
+              }
+              // eslint-disable-next-line no-console
+              console.warn(`[mirror ${pair.table}→${pair.mirrorTable}] decrypt failed id=${row.id}`, err);
+              const failure = recordFailureStatement(pair, row.id, err, attempt);
+              await tx.execute(failure.sql, failure.params);
+              effects.push(() => cancel(row.id));
+            }
+          }
+          for (const row of removed) {
+            await tx.execute(`DELETE FROM ${pair.mirrorTable} WHERE id = ?`, [row.id]);
+            const cleared = clearFailureStatement(pair, row.id);
+            await tx.execute(cleared.sql, cleared.params);
+            effects.push(() => cancel(row.id));
+          }
+        });
+        for (const apply of effects) apply();
+      } finally {
+        if (--running === 0) announced.length = 0;
+      }
+    };
+
+    const retry = async (work: Array<{ row: ColumnRow; attempt: number }>) => {
+      try {
+        await mirrorRows(work);
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn(`[mirror ${pair.table}→${pair.mirrorTable}] retry failed`, err);
+        for (const { row, attempt } of work) park(row, attempt, null, announcedSeq);
+      }
+    };
+
+    const stopKeyEvents = keyNotifier?.onKeyAvailable((event) => {
+      if (running > 0) announced.push({ ...event, seq: ++announcedSeq });
+      const ready = [...waiting.values()].filter((entry) => waitsFor(entry.kid, event));
+      if (ready.length === 0) return;
+      for (const entry of ready) cancel(entry.row.id);
+      void retry(ready.map((entry) => ({ row: entry.row, attempt: entry.attempt + 1 })));
+    });
+
+    const sub = query
+      .differentialWatch({ throttleMs: opts?.throttleMs ?? 150 })
+      .registerListener({
+        onDiff: async ({ added, updated, removed }) => {
+          const current = (updated ?? []).map((item: any) => (item && "current" in item ? item.current : item));
+          const work = [...(added ?? []), ...current];
+          if (work.length === 0 && (removed?.length ?? 0) === 0) return;
+          await mirrorRows(work.map((row) => ({ row, attempt: 1 })), removed ?? []);
+        },
+        onError: (err: unknown) => {
+          // eslint-disable-next-line no-console
+          console.error(`[mirror ${pair.table}→${pair.mirrorTable}] watch error:`, err);
+        },
+      });
+    subs.push(() => {
+      stopKeyEvents?.();
+      for (const id of [...waiting.keys()]) cancel(id);
+      sub?.();
+    });
+  }
+
+  return () => {
+    for (const stop of subs) {
+      try {
+        stop();
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn("Failed to close encrypted column mirror subscription", err);
+      }
+    }
+  };
+}
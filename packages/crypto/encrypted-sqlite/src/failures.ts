@@ -0,0 +1,93 @@
+import type { AbstractPowerSyncDatabase } from "@powersync/web";
+import type { EncryptedPairConfig } from "./types.js";
+
+/** A row that could not be mirrored, as recorded in `<mirror>_failures`. */
+export type MirrorFailure = {
+  id: string;
+  mirrorTable: string;
+  /** Error class name, e.g. `AuthenticationFailedError` or `SyntaxError`. */
+  error: string;
+  message: string | null;
+  /** Attempts made so far, summed across retries and re-drives. */
+  attempts: number;
+  lastAttemptAt: string;
+};
+
+type FailureRow = {
+  id: string;
+  error: string;
+  message: string | null;
+  attempts: number;
+  last_attempt_at: string;
+};
+
+/** Local-only dead-letter table of a pair; created by `ensurePairsDDL`. */
+export function failuresTable(pair: Pick<EncryptedPairConfig, "mirrorTable">): string {
+  return `${pair.mirrorTable}_failures`;
+}
+
+export function failuresTableDDL(pair: Pick<EncryptedPairConfig, "mirrorTable">): string {
+  return `
+      CREATE TABLE IF NOT EXISTS ${failuresTable(pair)} (
+        id TEXT PRIMARY KEY,
+        error TEXT NOT NULL,
+        message TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_attempt_at TEXT NOT NULL
+      );
+      `;
+}
+
+function errorName(err: unknown): string {
+  if (err instanceof Error) return err.name || err.constructor?.name || "Error";
+  return typeof err;
+}
+
+/** Upsert a failure, adding `attempts` to any count already recorded for the row. */
+export function recordFailureStatement(
+  pair: Pick<EncryptedPairConfig, "mirrorTable">,
+  id: string,
+  err: unknown,
+  attempts: number,
+): { sql: string; params: any[] } {
+  const table = failuresTable(pair);
+  return {
+    sql: `
+      INSERT INTO ${table} (id, error, message, attempts, last_attempt_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        error = excluded.error,
+        message = excluded.message,
+        attempts = ${table}.attempts + excluded.attempts,
+        last_attempt_at = excluded.last_attempt_at
+    `.trim(),
+    params: [
+      id,
+      errorName(err),
+      err instanceof Error ? err.message : err == null ? null : String(err),
+      attempts,
+      new Date().toISOString(),
+    ],
+  };
+}
+
+export function clearFailureStatement(pair: Pick<EncryptedPairConfig, "mirrorTable">, id: string) {
+  return { sql: `DELETE FROM ${failuresTable(pair)} WHERE id = ?`, params: [id] };
+}
+
+export async function listMirrorFailures(
+  db: Pick<AbstractPowerSyncDatabase, "getAll">,
+  pair: Pick<EncryptedPairConfig, "mirrorTable">,
+): Promise<MirrorFailure[]> {
+  const rows = await db.getAll<FailureRow>(
+    `SELECT id, error, message, attempts, last_attempt_at FROM ${failuresTable(pair)} ORDER BY last_attempt_at DESC`,
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    mirrorTable: pair.mirrorTable,
+    error: row.error,
+    message: row.message ?? null,
+    attempts: Number(row.attempts ?? 0),
+    lastAttemptAt: row.last_attempt_at,
+  }));
+}
@@ -1,4 +1,12 @@
 export * from "./types.js";
+export * from "./aad.js";
+export * from "./keyring.js";
+export * from "./failures.js";
+export * from "./checkpoints.js";
+export * from "./search.js";
+export * from "./blindIndex.js";
+export * from "./columnPairs.js";
+export * from "./migrations.js";
 export * from "./pairs.js";
 export * from "./replicator.js";
 export * from "./mutations.js";
\ No newline at end of file
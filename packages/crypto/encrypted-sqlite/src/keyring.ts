@@ -0,0 +1,76 @@
+import type { CryptoProvider, KeyId } from "@crypto/interface";
+import type { EncryptedPairConfig, RawEncryptedRow } from "./types.js";
+
+export type KeyRingLookup = {
+  /** Key id recorded with the row, or null for rows written without one. */
+  kid: KeyId | null;
+  row: RawEncryptedRow & Record<string, any>;
+  pair: EncryptedPairConfig;
+};
+
+/**
+ * Resolves the provider for a row's key id. Returning null means the key is not available
+ * on this device yet (e.g. its wrap has not synced); the replicator retries such rows.
+ */
+export interface KeyRing {
+  resolve(lookup: KeyRingLookup): CryptoProvider | null | Promise<CryptoProvider | null>;
+}
+
+export type KeyAvailableEvent = {
+  kid: KeyId;
+  /** Bucket the key belongs to; lets rows written without a key id match it. */
+  bucketId?: string | null;
+};
+
+/**
+ * Announces keys as they become available. Mirror subscriptions given a notifier park rows
+ * waiting for a key and retry just those rows when it arrives, instead of polling.
+ */
+export interface KeyAvailabilityNotifier {
+  onKeyAvailable(listener: (event: KeyAvailableEvent) => void): () => void;
+}
+
+export type MemoryKeyRingOptions = {
+  /** Key id to use for rows written without one (e.g. before key ids were recorded). */
+  kidForRow?: (row: RawEncryptedRow & Record<string, any>) => KeyId | null;
+};
+
+/** In-memory `KeyRing` indexed by each provider's `keyId`; announces keys as they are added. */
+export class MemoryKeyRing implements KeyRing, KeyAvailabilityNotifier {
+  private readonly providers = new Map<KeyId, CryptoProvider>();
+  private readonly listeners = new Set<(event: KeyAvailableEvent) => void>();
+
+  constructor(
+    providers: Iterable<CryptoProvider> = [],
+    private readonly opts: MemoryKeyRingOptions = {},
+  ) {
+    for (const provider of providers) this.add(provider);
+  }
+
+  add(provider: CryptoProvider, opts?: { bucketId?: string | null }) {
+    if (!provider.keyId) throw new Error("KeyRing providers need a keyId");
+    this.providers.set(provider.keyId, provider);
+    const event: KeyAvailableEvent = { kid: provider.keyId, bucketId: opts?.bucketId ?? null };
+    for (const listener of this.listeners) listener(event);
+  }
+
+  delete(kid: KeyId) {
+    return this.providers.delete(kid);
+  }
+
+  has(kid: KeyId) {
+    return this.providers.has(kid);
+  }
+
+  onKeyAvailable(listener: (event: KeyAvailableEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  resolve({ kid, row }: KeyRingLookup): CryptoProvider | null {
+    const id = kid ?? this.opts.kidForRow?.(row) ?? null;
+    return id ? this.providers.get(id) ?? null : null;
+  }
+}
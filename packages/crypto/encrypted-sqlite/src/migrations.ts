@@ -0,0 +1,119 @@
+import type { AbstractPowerSyncDatabase } from "@powersync/web";
+import type { EncryptedPairConfig, MirrorColumnDef } from "./types.js";
+import { mirrorColumnDDL, resolveTableShape } from "./types.js";
+import { rebuildMirror } from "./checkpoints.js";
+import { searchTable } from "./search.js";
+
+/** Local-only table recording, per pair, the mirror version and shapes last installed by `ensurePairsDDL`. */
+export const PAIRS_META_TABLE = "encrypted_pairs_meta";
+
+export const pairsMetaTableDDL = `
+      CREATE TABLE IF NOT EXISTS ${PAIRS_META_TABLE} (
+        name TEXT PRIMARY KEY,
+        mirror_version INTEGER NOT NULL,
+        encrypted_shape TEXT NOT NULL,
+        search_columns TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      `;
+
+export type PairMeta = {
+  mirrorVersion: number;
+  /** Signature of the encrypted table's uploaded columns and the tables its triggers touch. */
+  encryptedShape: string;
+  searchColumns: string;
+};
+
+/** What `migrateMirror` did to an existing mirror table. */
+export type MirrorMigration = {
+  added: string[];
+  dropped: string[];
+  /** The table was dropped and is recreated empty; its rows are decrypted again. */
+  rebuilt: boolean;
+};
+
+type ColumnInfo = { name: string; type: string; notnull: number };
+
+export async function loadPairMeta(db: Pick<AbstractPowerSyncDatabase, "getAll">, name: string): Promise<PairMeta | null> {
+  const rows = await db.getAll<{ mirror_version: number; encrypted_shape: string; search_columns: string }>(
+    `SELECT mirror_version, encrypted_shape, search_columns FROM ${PAIRS_META_TABLE} WHERE name = ?`,
+    [name],
+  );
+  const row = rows[0];
+  if (!row) return null;
+  return {
+    mirrorVersion: Number(row.mirror_version),
+    encryptedShape: row.encrypted_shape,
+    searchColumns: row.search_columns,
+  };
+}
+
+export async function savePairMeta(db: Pick<AbstractPowerSyncDatabase, "execute">, name: string, meta: PairMeta) {
+  await db.execute(
+    `INSERT OR REPLACE INTO ${PAIRS_META_TABLE} (name, mirror_version, encrypted_shape, search_columns, updated_at) VALUES (?, ?, ?, ?, ?)`,
+    [name, meta.mirrorVersion, meta.encryptedShape, meta.searchColumns, new Date().toISOString()],
+  );
+}
+
+/** A column can be added in place when existing rows can take its default. */
+function canAddColumn(col: MirrorColumnDef): boolean {
+  return !col.notNull || !!col.defaultExpr;
+}
+
+function sameColumn(installed: ColumnInfo, col: MirrorColumnDef): boolean {
+  return installed.type.toUpperCase() === col.type.toUpperCase() && !!installed.notnull === !!col.notNull;
+}
+
+/**
+ * Bring an existing mirror table in line with the pair's columns: add and drop columns where
+ * SQLite can, otherwise drop the table for `ensurePairsDDL` to recreate. New columns, a rebuild
+ * or a new `mirrorVersion` clear the checkpoints, so every row is decrypted again on the next start.
+ */
+export async function migrateMirror(
+  db: AbstractPowerSyncDatabase,
+  pair: EncryptedPairConfig,
+  previous: PairMeta | null,
+): Promise<MirrorMigration> {
+  const result: MirrorMigration = { added: [], dropped: [], rebuilt: false };
+  const installed = await db.getAll<ColumnInfo>(`PRAGMA table_info(${pair.mirrorTable})`);
+  if (installed.length === 0) return result;
+
+  const shape = resolveTableShape(pair.tableShape);
+  const base = new Set([shape.id, shape.userId, shape.bucketId, shape.updatedAt]);
+  const wanted = [...pair.mirrorColumns, ...(pair.passthroughColumns ?? [])];
+  const byName = new Map(installed.filter((c) => !base.has(c.name)).map((c) => [c.name, c]));
+  const added = wanted.filter((col) => !byName.has(col.name));
+  const dropped = [...byName.keys()].filter((name) => !wanted.some((col) => col.name === name));
+  const changed = wanted.some((col) => byName.has(col.name) && !sameColumn(byName.get(col.name)!, col));
+  const versionChanged = previous !== null && previous.mirrorVersion !== (pair.mirrorVersion ?? 1);
+
+  let rebuild = changed || !added.every(canAddColumn);
+  if (!rebuild) {
+    try {
+      for (const col of added) {
+        await db.execute(`ALTER TABLE ${pair.mirrorTable} ADD COLUMN ${mirrorColumnDDL(col)}`);
+        result.added.push(col.name);
+      }
+      for (const name of dropped) {
+        // Fails for indexed columns (e.g. from mirrorExtraIndexes); rebuild then.
+        await db.execute(`ALTER TABLE ${pair.mirrorTable} DROP COLUMN ${name}`);
+        result.dropped.push(name);
+      }
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.warn(`[mirror ${pair.mirrorTable}] cannot migrate in place, rebuilding`, err);
+      rebuild = true;
+    }
+  }
+  if (rebuild) {
+    // The search index holds mirror rows too; it is recreated and refilled with them.
+    await db.execute(`DROP TABLE IF EXISTS ${searchTable(pair)}`);
+    await db.execute(`DROP TABLE ${pair.mirrorTable}`);
+    result.rebuilt = true;
+  }
+  // Dropped columns need nothing from the ciphertext; new ones and new versions do.
+  if (rebuild || result.added.length > 0 || versionChanged) {
+    await rebuildMirror(db, pair);
+  }
+  return result;
+}
@@ -1,16 +1,26 @@
 import type { EncryptedPairConfig, EncryptedRuntime } from "./types.js";
 import { utf8, resolveTableShape } from "./types.js";
+import { buildRowAad, isRowAadBound } from "./aad.js";
+import { blindIndexValues } from "./blindIndex.js";
 
 /** ISO helper */
 function nowIso() { return new Date().toISOString(); }
 
-type InsertArgs<T> =
+type ColumnArgs = {
+  /** Plaintext values for the pair's blind indexes, by index name; overrides `BlindIndexDef.value`. */
+  blindIndexes?: Record<string, string | null>;
+  /** Values for the pair's passthrough columns, by column name; overrides `PassthroughColumnDef.value`. */
+  passthrough?: Record<string, unknown>;
+};
+
+type InsertArgs<T> = ColumnArgs & (
   | { id: string; bucketId?: string | null; object: T; aad?: string }
-  | { id: string; bucketId?: string | null; plaintext: Uint8Array; aad?: string };
+  | { id: string; bucketId?: string | null; plaintext: Uint8Array; aad?: string });
 
-type UpdateArgs<T> =
+/** Blind indexes and passthrough columns with no value given or read from `object` keep their stored value. */
+type UpdateArgs<T> = ColumnArgs & (
   | { id: string; bucketId?: string | null; object: T; aad?: string }
-  | { id: string; bucketId?: string | null; plaintext: Uint8Array; aad?: string };
+  | { id: string; bucketId?: string | null; plaintext: Uint8Array; aad?: string });
 
 function toPlain<T>(pair: EncryptedPairConfig<T>, args: { object?: T; plaintext?: Uint8Array; aad?: string }) {
   if (args.plaintext) return { plaintext: args.plaintext, aad: args.aad ?? pair.aad };
@@ -22,23 +32,63 @@ function toPlain<T>(pair: EncryptedPairConfig<T>, args: { object?: T; plaintext?
   throw new Error("insert/update requires either 'object' or 'plaintext'");
 }
 
+/** SQL fragments for the optional key id column; empty when the pair does not store one. */
+function kidColumn(shape: ReturnType<typeof resolveTableShape>, kid: string | undefined) {
+  if (!shape.kid) return { column: "", placeholder: "", assignment: "", params: [] as any[] };
+  return {
+    column: `, ${shape.kid}`,
+    placeholder: ", ?",
+    assignment: `, ${shape.kid} = ?`,
+    params: [kid ?? null],
+  };
+}
+
+/** Passthrough columns to write: `explicit` values win, then `PassthroughColumnDef.value(object)`. */
+function passthroughValues<T>(pair: EncryptedPairConfig<T>, object: T | undefined, explicit: Record<string, unknown> | undefined) {
+  const columns: string[] = [];
+  const params: any[] = [];
+  for (const col of pair.passthroughColumns ?? []) {
+    if (explicit && col.name in explicit) params.push(explicit[col.name] ?? null);
+    else if (object != null && col.value) params.push(col.value(object) ?? null);
+    else continue;
+    columns.push(col.name);
+  }
+  return { columns, params };
+}
+
+/** Apply row binding (when enabled) on top of the base AAD from `toPlain`. */
+function effectiveAad<T>(
+  pair: EncryptedPairConfig<T>,
+  baseAad: string | undefined,
+  row: { id: string; userId: string; bucketId: string | null },
+) {
+  if (!isRowAadBound(pair)) return baseAad;
+  return buildRowAad(pair, baseAad, { id: row.id, user_id: row.userId, bucket_id: row.bucketId });
+}
+
 export async function insertEncrypted<T>(
   runtime: EncryptedRuntime,
   pair: EncryptedPairConfig<T>,
   args: InsertArgs<T>
 ) {
   const { db, userId, crypto } = runtime;
-  const { plaintext, aad } = toPlain(pair, args);
+  const { plaintext, aad: baseAad } = toPlain(pair, args);
+  const aad = effectiveAad(pair, baseAad, { id: args.id, userId, bucketId: args.bucketId ?? null });
   const env = await crypto.encrypt(plaintext, aad);
   const now = nowIso();
   const shape = resolveTableShape(pair.tableShape);
+  const kid = kidColumn(shape, env.header.kid);
+  const object = "object" in args ? args.object : undefined;
+  const blind = await blindIndexValues(runtime, pair, { object, explicit: args.blindIndexes });
+  const passthrough = passthroughValues(pair, object, args.passthrough);
+  const extra = [...passthrough.columns, ...blind.columns];
 
   await db.execute(
     `INSERT INTO ${pair.encryptedTable} (
       ${shape.id}, ${shape.userId}, ${shape.bucketId},
       ${shape.alg}, ${shape.aad}, ${shape.nonce}, ${shape.cipher}, ${shape.kdfSalt},
-      ${shape.createdAt}, ${shape.updatedAt}
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`.trim(),
+      ${shape.createdAt}, ${shape.updatedAt}${kid.column}${extra.map((c) => `, ${c}`).join("")}
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?${kid.placeholder}${", ?".repeat(extra.length)})`.trim(),
     [
       args.id,
       userId,
@@ -49,7 +99,10 @@ export async function insertEncrypted<T>(
       env.cB64,
       env.header.kdf.saltB64 ?? "",
       now,
-      now
+      now,
+      ...kid.params,
+      ...passthrough.params,
+      ...blind.params
     ]
   );
 }
@@ -60,14 +113,31 @@ export async function updateEncrypted<T>(
   args: UpdateArgs<T>
 ) {
   const { db, userId, crypto } = runtime;
-  const { plaintext, aad } = toPlain(pair, args as any);
+  const { plaintext, aad: baseAad } = toPlain(pair, args as any);
+  const shape = resolveTableShape(pair.tableShape);
+  let bucketId = args.bucketId;
+  if (bucketId === undefined && isRowAadBound(pair)) {
+    // The AAD must match the bucket the row already lives in.
+    const rows = await db.getAll<{ bucket_id: string | null }>(
+      `SELECT ${shape.bucketId} AS bucket_id FROM ${pair.encryptedTable} WHERE ${shape.id} = ?`,
+      [args.id]
+    );
+    bucketId = rows?.[0]?.bucket_id ?? null;
+  }
+  const aad = effectiveAad(pair, baseAad, { id: args.id, userId, bucketId: bucketId ?? null });
   const env = await crypto.encrypt(plaintext, aad);
   const now = nowIso();
-  const shape = resolveTableShape(pair.tableShape);
+  const kid = kidColumn(shape, env.header.kid);
+  const object = "object" in args ? args.object : undefined;
+  const blind = await blindIndexValues(runtime, pair, { object, explicit: args.blindIndexes });
+  const passthrough = passthroughValues(pair, object, args.passthrough);
+  const extra = [...passthrough.columns, ...blind.columns];
+  // An explicit bucketId moves the row, so the stored bucket always matches the one bound into the AAD.
+  if (args.bucketId !== undefined) extra.push(shape.bucketId);
 
   await db.execute(
     `UPDATE ${pair.encryptedTable}
-        SET ${shape.alg} = ?, ${shape.aad} = ?, ${shape.nonce} = ?, ${shape.cipher} = ?, ${shape.kdfSalt} = ?, ${shape.updatedAt} = ?
+        SET ${shape.alg} = ?, ${shape.aad} = ?, ${shape.nonce} = ?, ${shape.cipher} = ?, ${shape.kdfSalt} = ?, ${shape.updatedAt} = ?${kid.assignment}${extra.map((c) => `, ${c} = ?`).join("")}
       WHERE ${shape.id} = ? AND ${shape.userId} = ?`.trim(),
     [
       env.header.alg,
@@ -76,6 +146,10 @@ export async function updateEncrypted<T>(
       env.cB64,
       env.header.kdf.saltB64 ?? "",
       now,
+      ...kid.params,
+      ...passthrough.params,
+      ...blind.params,
+      ...(args.bucketId !== undefined ? [args.bucketId] : []),
       args.id,
       userId
     ]
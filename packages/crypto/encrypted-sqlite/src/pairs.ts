@@ -1,9 +1,15 @@
 import { Schema } from "@powersync/web";
 import type { AbstractPowerSyncDatabase } from "@powersync/web";
-import type { EncryptedPairConfig, MirrorColumnDef } from "./types.js";
-import { resolveTableShape } from "./types.js";
+import type { EncryptedColumnPairConfig, EncryptedPairConfig } from "./types.js";
+import { mirrorColumnDDL, resolveTableShape } from "./types.js";
+import { failuresTable, failuresTableDDL } from "./failures.js";
+import { checkpointsTable, checkpointsTableDDL } from "./checkpoints.js";
+import { searchTable, searchTableDDL } from "./search.js";
+import { blindIndexColumns } from "./blindIndex.js";
+import { columnPairMirrorColumns } from "./columnPairs.js";
+import { loadPairMeta, migrateMirror, pairsMetaTableDDL, savePairMeta } from "./migrations.js";
 
-function jsonObjectFields(shape: ReturnType<typeof resolveTableShape>, source: 'NEW' | 'OLD') {
+function jsonObjectFields(shape: ReturnType<typeof resolveTableShape>, extraColumns: string[], source: 'NEW' | 'OLD') {
   return [
     `'${shape.userId}', ${source}.${shape.userId}`,
     `'${shape.bucketId}', ${source}.${shape.bucketId}`,
@@ -14,16 +20,31 @@ function jsonObjectFields(shape: ReturnType<typeof resolveTableShape>, source: '
     `'${shape.kdfSalt}', ${source}.${shape.kdfSalt}`,
     `'${shape.createdAt}', ${source}.${shape.createdAt}`,
     `'${shape.updatedAt}', ${source}.${shape.updatedAt}`,
+    ...(shape.kid ? [`'${shape.kid}', ${source}.${shape.kid}`] : []),
+    ...extraColumns.map((c) => `'${c}', ${source}.${c}`),
   ].join(',\n          ');
 }
 
-function columnDDL(col: MirrorColumnDef): string {
+/** Add an optional column (key id, passthrough, blind index) to an encrypted table created before the pair had it. */
+async function ensureColumn(db: AbstractPowerSyncDatabase, table: string, column: string, ddl = `${column} TEXT`): Promise<boolean> {
+  const columns = await db.getAll<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (columns.some((c) => c.name === column)) return false;
+  await db.execute(`ALTER TABLE ${table} ADD COLUMN ${ddl}`);
+  return true;
+}
+
+async function tableExists(db: AbstractPowerSyncDatabase, table: string): Promise<boolean> {
+  const rows = await db.getAll<{ name: string }>(`SELECT name FROM sqlite_master WHERE name = ?`, [table]);
+  return rows.length > 0;
+}
+
+/** Encrypted-table columns besides the envelope: passthrough values, then blind indexes. */
+function extraEncryptedColumns(pair: EncryptedPairConfig): { name: string; ddl: string }[] {
   return [
-    col.name,
-    col.type,
-    col.notNull ? "NOT NULL" : "",
-    col.defaultExpr ? `DEFAULT ${col.defaultExpr}` : ""
-  ].filter(Boolean).join(" ");
+    // NOT NULL is left to the mirror so writes can leave a passthrough column to the server.
+    ...(pair.passthroughColumns ?? []).map((col) => ({ name: col.name, ddl: mirrorColumnDDL({ ...col, notNull: false }) })),
+    ...blindIndexColumns(pair).map((name) => ({ name, ddl: `${name} TEXT` })),
+  ];
 }
 
 /** Install raw-table mappings (PowerSync stays blind to your domain) */
@@ -31,14 +52,15 @@ export function installPairsOnSchema(base: Schema, pairs: EncryptedPairConfig[])
   const mappings: Record<string, any> = {};
   for (const p of pairs) {
     const shape = resolveTableShape(p.tableShape);
+    const extra = extraEncryptedColumns(p).map((c) => c.name);
     mappings[p.encryptedTable] = {
       put: {
         sql: `
           INSERT INTO ${p.encryptedTable} (
             ${shape.id}, ${shape.userId}, ${shape.bucketId},
             ${shape.alg}, ${shape.aad}, ${shape.nonce}, ${shape.cipher}, ${shape.kdfSalt},
-            ${shape.createdAt}, ${shape.updatedAt}
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ${shape.createdAt}, ${shape.updatedAt}${shape.kid ? `, ${shape.kid}` : ""}${extra.map((c) => `, ${c}`).join("")}
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?${shape.kid ? ", ?" : ""}${", ?".repeat(extra.length)})
           ON CONFLICT(${shape.id}) DO UPDATE SET
             ${shape.userId}=excluded.${shape.userId},
             ${shape.bucketId}=excluded.${shape.bucketId},
@@ -48,7 +70,9 @@ export function installPairsOnSchema(base: Schema, pairs: EncryptedPairConfig[])
             ${shape.cipher}=excluded.${shape.cipher},
             ${shape.kdfSalt}=excluded.${shape.kdfSalt},
             ${shape.createdAt}=excluded.${shape.createdAt},
-            ${shape.updatedAt}=excluded.${shape.updatedAt}
+            ${shape.updatedAt}=excluded.${shape.updatedAt}${shape.kid ? `,
+            ${shape.kid}=excluded.${shape.kid}` : ""}${extra.map((c) => `,
+            ${c}=excluded.${c}`).join("")}
         `.trim(),
         params: [
           "Id",
@@ -60,7 +84,9 @@ export function installPairsOnSchema(base: Schema, pairs: EncryptedPairConfig[])
           { Column: shape.cipher },
           { Column: shape.kdfSalt },
           { Column: shape.createdAt },
-          { Column: shape.updatedAt }
+          { Column: shape.updatedAt },
+          ...(shape.kid ? [{ Column: shape.kid }] : []),
+          ...extra.map((c) => ({ Column: c }))
         ]
       },
       delete: {
@@ -73,15 +99,22 @@ export function installPairsOnSchema(base: Schema, pairs: EncryptedPairConfig[])
   return base;
 }
 
-/** Create encrypted & mirror tables and upload triggers */
+/**
+ * Create encrypted (with passthrough & blind index columns), mirror, failure, checkpoint & search
+ * tables and upload triggers, migrating mirrors and triggers installed for an older pair config.
+ */
 export async function ensurePairsDDL(db: AbstractPowerSyncDatabase, pairs: EncryptedPairConfig[]) {
+  await db.execute(pairsMetaTableDDL);
   for (const p of pairs) {
     const enc = p.encryptedTable;
     const mir = p.mirrorTable;
+    const previous = await loadPairMeta(db, p.name);
 
     // Encrypted table (opaque)
     const shape = resolveTableShape(p.tableShape);
-    const jsonNew = jsonObjectFields(shape, 'NEW');
+    const extra = extraEncryptedColumns(p);
+    const blind = blindIndexColumns(p);
+    const jsonNew = jsonObjectFields(shape, extra.map((c) => c.name), 'NEW');
     await db.execute(
       `
       CREATE TABLE IF NOT EXISTS ${enc} (
@@ -94,14 +127,44 @@ export async function ensurePairsDDL(db: AbstractPowerSyncDatabase, pairs: Encry
         ${shape.cipher} TEXT NOT NULL,
         ${shape.kdfSalt} TEXT NOT NULL,
         ${shape.createdAt} TEXT NOT NULL,
-        ${shape.updatedAt} TEXT NOT NULL
+        ${shape.updatedAt} TEXT NOT NULL${shape.kid ? `,
+        ${shape.kid} TEXT` : ""}${extra.map((c) => `,
+        ${c.ddl}`).join("")}
       );
       CREATE INDEX IF NOT EXISTS idx_${enc}_user_updated ON ${enc}(${shape.userId}, ${shape.updatedAt} DESC);
       `
     );
 
-    // Mirror table with custom columns
-    const customColsDDL = p.mirrorColumns.map(columnDDL).join(",\n        ");
+    // Triggers copy column lists and table names, so recreate them whenever those change.
+    const search = searchTableDDL(p);
+    const encryptedShape = JSON.stringify({
+      columns: [shape.id, ...jsonNew.split(",\n").map((field) => field.trim())],
+      mirror: mir,
+      search: !!search,
+    });
+    let addedColumn = false;
+    if (shape.kid && (await ensureColumn(db, enc, shape.kid))) addedColumn = true;
+    for (const column of extra) {
+      if (await ensureColumn(db, enc, column.name, column.ddl)) addedColumn = true;
+    }
+    if (addedColumn || previous?.encryptedShape !== encryptedShape) {
+      await db.execute(
+        ["insert", "update", "delete", "mirror_cascade_delete", "failures_cascade_delete", "checkpoints_cascade_delete", "search_cascade_delete"]
+          .map((trigger) => `DROP TRIGGER IF EXISTS ${enc}_${trigger};`)
+          .join(" ")
+      );
+    }
+    for (const column of blind) {
+      await db.execute(`CREATE INDEX IF NOT EXISTS idx_${enc}_${column} ON ${enc}(${column})`);
+    }
+
+    // Rows that could not be decrypted or parsed, and the ciphertext each mirror row reflects
+    await db.execute(failuresTableDDL(p));
+    await db.execute(checkpointsTableDDL(p));
+
+    // Mirror table with custom columns, migrated first if it was created from other columns
+    await migrateMirror(db, p, previous);
+    const customColsDDL = [...p.mirrorColumns, ...(p.passthroughColumns ?? [])].map(mirrorColumnDDL).join(",\n        ");
     await db.execute(
       `
       CREATE TABLE IF NOT EXISTS ${mir} (
@@ -114,6 +177,16 @@ export async function ensurePairsDDL(db: AbstractPowerSyncDatabase, pairs: Encry
       CREATE INDEX IF NOT EXISTS idx_${mir}_user_updated ON ${mir}(${shape.userId}, ${shape.updatedAt} DESC);
       `
     );
+    // Full-text index over searchColumns; a new index starts from what the mirror already holds,
+    // since checkpointed rows are not decrypted again.
+    const searchColumns = JSON.stringify(p.searchColumns ?? []);
+    if (previous && previous.searchColumns !== searchColumns) {
+      await db.execute(`DROP TABLE IF EXISTS ${searchTable(p)}`);
+    }
+    if (search && !(await tableExists(db, searchTable(p)))) {
+      await db.execute(search.create);
+      await db.execute(search.backfill);
+    }
     if (p.mirrorExtraIndexes?.length) {
       for (const idx of p.mirrorExtraIndexes) {
         await db.execute(idx);
@@ -150,7 +223,48 @@ export async function ensurePairsDDL(db: AbstractPowerSyncDatabase, pairs: Encry
       BEGIN
         DELETE FROM ${mir} WHERE ${shape.id} = OLD.${shape.id};
       END;
+
+      CREATE TRIGGER IF NOT EXISTS ${enc}_failures_cascade_delete
+      AFTER DELETE ON ${enc}
+      BEGIN
+        DELETE FROM ${failuresTable(p)} WHERE id = OLD.${shape.id};
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS ${enc}_checkpoints_cascade_delete
+      AFTER DELETE ON ${enc}
+      BEGIN
+        DELETE FROM ${checkpointsTable(p)} WHERE id = OLD.${shape.id};
+      END;
+      `
+    );
+    if (search) {
+      await db.execute(`
+      CREATE TRIGGER IF NOT EXISTS ${enc}_search_cascade_delete
+      AFTER DELETE ON ${enc}
+      BEGIN
+        DELETE FROM ${searchTable(p)} WHERE id = OLD.${shape.id};
+      END;
+      `);
+    }
+    await savePairMeta(db, p.name, { mirrorVersion: p.mirrorVersion ?? 1, encryptedShape, searchColumns });
+  }
+}
+
+/**
+ * Create the mirror and failure tables of column-mode pairs. Their encrypted table is the
+ * app's own PowerSync table, with each encrypted column declared as `column.text`.
+ */
+export async function ensureColumnPairsDDL(db: AbstractPowerSyncDatabase, pairs: EncryptedColumnPairConfig[]) {
+  for (const p of pairs) {
+    const customColsDDL = columnPairMirrorColumns(p).map(mirrorColumnDDL).join(",\n        ");
+    await db.execute(
+      `
+      CREATE TABLE IF NOT EXISTS ${p.mirrorTable} (
+        id TEXT PRIMARY KEY,
+        ${customColsDDL}
+      );
       `
     );
+    await db.execute(failuresTableDDL(p));
   }
 }
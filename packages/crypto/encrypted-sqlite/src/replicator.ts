@@ -1,12 +1,20 @@
-import type { EncryptedPairConfig, EncryptedRuntime, RawEncryptedRow } from "./types.js";
+import type { EncryptedPairConfig, EncryptedRuntime, MirrorValues, RawEncryptedRow } from "./types.js";
 import { columnsToEnvelope, resolveTableShape } from "./types.js";
+import { resolveDecryptAad } from "./aad.js";
+import type { KeyAvailabilityNotifier, KeyAvailableEvent, KeyRing } from "./keyring.js";
+import type { MirrorFailure } from "./failures.js";
+import { clearFailureStatement, listMirrorFailures, recordFailureStatement } from "./failures.js";
+import { searchIndexStatements } from "./search.js";
+import type { MirrorQueryFilter } from "./blindIndex.js";
+import { checkpointsTable, clearCheckpointStatement, loadCheckpoints, rowFingerprint, saveCheckpointStatement } from "./checkpoints.js";
 import type { CryptoProvider } from "@crypto/interface";
+import { AuthenticationFailedError, KeyUnavailableError } from "@crypto/interface";
 
 /** Helper: dynamic UPSERT for mirror with declared custom columns */
 function buildMirrorUpsertSQL(pair: EncryptedPairConfig) {
   const mir = pair.mirrorTable;
   const shape = resolveTableShape(pair.tableShape);
-  const custom = pair.mirrorColumns.map((c) => c.name);
+  const custom = [...pair.mirrorColumns, ...(pair.passthroughColumns ?? [])].map((c) => c.name);
   const cols = [shape.id, shape.userId, shape.bucketId, shape.updatedAt, ...custom];
   const placeholders = cols.map(() => "?").join(", ");
 
@@ -17,7 +25,7 @@ function buildMirrorUpsertSQL(pair: EncryptedPairConfig) {
 
   const deleteSql = `DELETE FROM ${mir} WHERE ${shape.id} = ?`;
 
-  return { insertSql, deleteSql, shape };
+  return { insertSql, deleteSql, shape, custom };
 }
 
 type MirrorQuery = { sql: string; parameters?: any[] };
@@ -38,6 +46,22 @@ type ResolveCryptoArgs = {
 
 type ResolveCryptoFn = (args: ResolveCryptoArgs) => CryptoProvider | null | undefined | Promise<CryptoProvider | null | undefined>;
 
+type TransformMirrorArgs = {
+  values: MirrorValues;
+  /**
+   * What parsePlain returned, before passthrough columns were copied in. Passthrough values
+   * are not covered by the ciphertext, so checks over signed content (e.g. signatures) read
+   * them from here.
+   */
+  decrypted: MirrorValues;
+  row: RawEncryptedRow & Record<string, any>;
+  pair: EncryptedPairConfig;
+  runtime: EncryptedRuntime;
+};
+
+/** Runs after parsePlain; may add or rewrite mirror values using async work (e.g. signature checks). */
+type TransformMirrorFn = (args: TransformMirrorArgs) => MirrorValues | Promise<MirrorValues>;
+
 type RowComparator = {
   keyBy: (row: Record<string, any>) => string;
   compareBy: (row: Record<string, any>) => string;
@@ -46,7 +70,18 @@ type RowComparator = {
 export type MirrorSubscriptionConfig = {
   pair: EncryptedPairConfig;
   query?: MirrorQuery | MirrorQueryFactory;
+  /** Extra condition ANDed into the default query, e.g. from `blindIndexFilter`; ignored with `query`. */
+  filter?: MirrorQueryFilter;
   resolveCrypto?: ResolveCryptoFn;
+  /** Looks up each row's key by `kid`; consulted when `resolveCrypto` is not set. */
+  keyRing?: KeyRing;
+  /**
+   * Announces keys as they arrive. Rows waiting for a key are parked until a matching key
+   * is announced rather than polled on a timer. Defaults to `keyRing` when it is a notifier
+   * (as `MemoryKeyRing` is).
+   */
+  keyNotifier?: KeyAvailabilityNotifier;
+  transform?: TransformMirrorFn;
   throttleMs?: number;
   comparator?: RowComparator;
 };
@@ -59,6 +94,7 @@ function defaultQuery(
   pair: EncryptedPairConfig,
   shape: ReturnType<typeof resolveTableShape>,
   runtime: EncryptedRuntime,
+  filter?: MirrorQueryFilter,
 ): MirrorQuery {
   return {
     sql: `
@@ -70,18 +106,22 @@ function defaultQuery(
           ${shape.aad} AS aad,
           ${shape.nonce} AS nonce_b64,
           ${shape.cipher} AS cipher_b64,
-          ${shape.kdfSalt} AS kdf_salt_b64,
+          ${shape.kdfSalt} AS kdf_salt_b64,${shape.kid ? `
+          ${shape.kid} AS kid,` : ""}${(pair.passthroughColumns ?? []).map((c) => `
+          ${c.name},`).join("")}
           ${shape.createdAt} AS created_at,
           ${shape.updatedAt} AS updated_at
           FROM ${pair.encryptedTable}
-         WHERE ${shape.userId} = ?
+         WHERE ${shape.userId} = ?${filter ? `
+           AND (${filter.sql})` : ""}
          ORDER BY ${shape.updatedAt} DESC
       `,
-    parameters: [runtime.userId],
+    parameters: [runtime.userId, ...(filter?.parameters ?? [])],
   };
 }
 
-function defaultComparator(shape: ReturnType<typeof resolveTableShape>): RowComparator {
+function defaultComparator(pair: EncryptedPairConfig, shape: ReturnType<typeof resolveTableShape>): RowComparator {
+  const passthrough = (pair.passthroughColumns ?? []).map((c) => c.name);
   return {
     keyBy: (row) => String(row[shape.id] ?? row.id ?? ""),
     compareBy: (row) => {
@@ -90,12 +130,25 @@ function defaultComparator(shape: ReturnType<typeof resolveTableShape>): RowComp
       const nonce = row[shape.nonce] ?? row.nonce_b64 ?? "";
       const cipher = row[shape.cipher] ?? row.cipher_b64 ?? "";
       const kdf = row[shape.kdfSalt] ?? row.kdf_salt_b64 ?? "";
+      const kid = (shape.kid ? row[shape.kid] : null) ?? row.kid ?? "";
       const updated = row[shape.updatedAt] ?? row.updated_at ?? "";
-      return `${alg}|${aad}|${nonce}|${cipher}|${kdf}|${updated}`;
+      const base = `${alg}|${aad}|${nonce}|${cipher}|${kdf}|${kid}|${updated}`;
+      // Passthrough values change without the ciphertext; pairs without any keep their old checkpoints.
+      return passthrough.length ? `${base}|${JSON.stringify(passthrough.map((name) => row[name] ?? null))}` : base;
     },
   };
 }
 
+function isKeyAvailabilityNotifier(value: unknown): value is KeyAvailabilityNotifier {
+  return typeof (value as KeyAvailabilityNotifier | null)?.onKeyAvailable === "function";
+}
+
+/** Rows with a key id wait for exactly that key; others for any key of their bucket. */
+function waitsForKey(row: RawEncryptedRow & Record<string, any>, event: KeyAvailableEvent): boolean {
+  if (row.kid) return row.kid === event.kid;
+  return !event.bucketId || !row.bucket_id || row.bucket_id === event.bucketId;
+}
+
 function normalizeRow(
   row: Record<string, any>,
   shape: ReturnType<typeof resolveTableShape>,
@@ -110,19 +163,103 @@ function normalizeRow(
     nonce_b64: row[shape.nonce] ?? row.nonce_b64,
     cipher_b64: row[shape.cipher] ?? row.cipher_b64,
     kdf_salt_b64: row[shape.kdfSalt] ?? row.kdf_salt_b64,
+    kid: (shape.kid ? row[shape.kid] : null) ?? row.kid ?? null,
     created_at: row[shape.createdAt] ?? row.created_at ?? row[shape.updatedAt] ?? row.updated_at,
     updated_at: row[shape.updatedAt] ?? row.updated_at,
   };
   return normalized;
 }
 
+export type MirrorTableStatus = {
+  /** Rows waiting for another attempt, usually for a key that has not synced yet. */
+  pendingRetries: number;
+  /** Rows recorded in the failures table by this subscription. */
+  failures: number;
+  /** When the last diff from the encrypted table was applied. */
+  lastSyncAt: string | null;
+};
+
+/** Totals across all subscriptions, plus a breakdown by mirror table. */
+export type MirrorStatus = MirrorTableStatus & {
+  tables: Record<string, MirrorTableStatus>;
+};
+
+export type RedriveOptions = {
+  /** Only re-drive rows of this mirror table. */
+  mirrorTable?: string;
+  /** Only re-drive these row ids. */
+  ids?: string[];
+};
+
+/**
+ * Calling the handle stops all subscriptions. The methods report rows that did not reach
+ * their mirror and try them again on demand, e.g. right after a key becomes available.
+ */
+export type EncryptedMirrorHandle = (() => void) & {
+  status(): MirrorStatus;
+  onStatus(listener: (status: MirrorStatus) => void): () => void;
+  listFailures(mirrorTable?: string): Promise<MirrorFailure[]>;
+  /** Retry failed and pending rows now; resolves to the number of rows mirrored. */
+  redrive(opts?: RedriveOptions): Promise<number>;
+  /**
+   * Drop the checkpoints of a pair (or of every pair) and decrypt all of its rows again;
+   * resolves to the number of rows mirrored.
+   */
+  rebuildMirror(pair?: EncryptedPairConfig | string): Promise<number>;
+};
+
+/** Bookkeeping a mirror transaction records by row; `null` removes the entry. */
+type MirrorEffects = {
+  resetCheckpoints: boolean;
+  checkpoints: Map<string, string | null>;
+  failures: Map<string, (RawEncryptedRow & Record<string, any>) | null>;
+  /** By retry key: queue the row for another attempt, or cancel its pending one. */
+  retries: Map<string, { rawRow: RawEncryptedRow & Record<string, any>; attempt: number; missingKey: boolean } | null>;
+};
+
+type SubscriptionHandle = {
+  pair: EncryptedPairConfig;
+  close: () => void;
+  status: () => MirrorTableStatus;
+  redrive: (ids?: string[]) => Promise<number>;
+  rebuild: () => Promise<number>;
+};
+
 export function startEncryptedMirrorSubscriptions(
   runtime: EncryptedRuntime,
   configs: MirrorSubscriptionConfig[],
   defaults?: MirrorSubscriptionDefaults,
-) {
+): EncryptedMirrorHandle {
   const { db } = runtime;
-  const subs: Array<{ close: () => void }> = [];
+  const subs: SubscriptionHandle[] = [];
+  const listeners = new Set<(status: MirrorStatus) => void>();
+
+  const status = (): MirrorStatus => {
+    const totals: MirrorStatus = { pendingRetries: 0, failures: 0, lastSyncAt: null, tables: {} };
+    for (const sub of subs) {
+      const current = sub.status();
+      totals.tables[sub.pair.mirrorTable] = current;
+      totals.pendingRetries += current.pendingRetries;
+      totals.failures += current.failures;
+      if (current.lastSyncAt && (!totals.lastSyncAt || current.lastSyncAt > totals.lastSyncAt)) {
+        totals.lastSyncAt = current.lastSyncAt;
+      }
+    }
+    return totals;
+  };
+
+  const notify = () => {
+    if (listeners.size === 0) return;
+    const current = status();
+    for (const listener of listeners) {
+      try {
+        listener(current);
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn('Encrypted mirror status listener failed', err);
+      }
+    }
+  };
 
   for (const config of configs) {
     const pair = config.pair;
@@ -130,15 +267,30 @@ export function startEncryptedMirrorSubscriptions(
     const shape = upsert.shape;
     const querySpec = typeof config.query === 'function'
       ? config.query({ pair, shape, runtime })
-      : config.query ?? defaultQuery(pair, shape, runtime);
+      : config.query ?? defaultQuery(pair, shape, runtime, config.filter);
 
     const sql = querySpec.sql;
     const parameters = querySpec.parameters ?? [runtime.userId];
     const throttle = config.throttleMs ?? defaults?.throttleMs ?? 150;
-    const comparator = config.comparator ?? defaultComparator(shape);
+    const comparator = config.comparator ?? defaultComparator(pair, shape);
+    const search = searchIndexStatements(pair);
+    const keyNotifier = config.keyNotifier
+      ?? (isKeyAvailabilityNotifier(config.keyRing) ? config.keyRing : undefined);
 
     const pendingRetries = new Map<string, number>();
     const retryTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+    const retryRows = new Map<string, RawEncryptedRow & Record<string, any>>();
+    // Raw rows currently in the failures table, kept so they can be re-driven without a query.
+    const failedRows = new Map<string, RawEncryptedRow & Record<string, any>>();
+    let lastSyncAt: string | null = null;
+    // Fingerprint of the encrypted row each mirror row was decrypted from, persisted so a
+    // restarted subscription skips rows whose mirror is already current.
+    const checkpointsReady = loadCheckpoints(db, pair).catch((err) => {
+      // eslint-disable-next-line no-console
+      console.warn(`[mirror ${pair.encryptedTable}→${pair.mirrorTable}] could not load checkpoints`, err);
+      return new Map<string, string>();
+    });
+    const fingerprint = (rawRow: Record<string, any>) => rowFingerprint(comparator.compareBy(rawRow));
     const MAX_RETRIES = 120;
     const BASE_RETRY_DELAY_MS = 500;
 
@@ -147,54 +299,154 @@ export function startEncryptedMirrorSubscriptions(
       return existing !== undefined && existing <= attempt;
     };
 
+    const cancelRetry = (key: string) => {
+      const timeout = retryTimeouts.get(key);
+      if (timeout) clearTimeout(timeout);
+      retryTimeouts.delete(key);
+      pendingRetries.delete(key);
+      retryRows.delete(key);
+    };
+
     const clearRetryTimers = () => {
       for (const timeout of retryTimeouts.values()) {
         clearTimeout(timeout);
       }
       retryTimeouts.clear();
       pendingRetries.clear();
+      retryRows.clear();
     };
 
-    const isDecryptKeyError = (err: unknown) => {
-      return err instanceof Error && /cannot be decrypted using that key/i.test(err.message ?? '');
+    // Authentication failures under the key the row names itself (tampered ciphertext, or a
+    // different key under that id); no key announced later changes their outcome.
+    const finalFailures = new WeakSet<object>();
+    // Rows no provider was found for at all, as opposed to a provider that could not decrypt.
+    const missingKeys = new WeakSet<object>();
+
+    // The right key may still be on its way: not synced yet, or a fallback key was tried in
+    // the meantime. Anything else (bad algorithm, malformed envelope, AAD mismatch, parse
+    // errors, the row's own key rejecting it) fails the same way on every attempt, so it is
+    // recorded as a failure right away.
+    const isRetryable = (err: unknown) =>
+      err instanceof KeyUnavailableError ||
+      (err instanceof AuthenticationFailedError && !finalFailures.has(err));
+
+    const rowId = (rawRow: Record<string, any>) => String(rawRow[shape.id] ?? rawRow.id);
+
+    const recordFailure = async (
+      exec: Pick<EncryptedRuntime["db"], "execute">,
+      rawRow: RawEncryptedRow & Record<string, any>,
+      err: unknown,
+      attempts: number,
+    ) => {
+      const id = rowId(rawRow);
+      // eslint-disable-next-line no-console
+      console.warn(`[mirror ${pair.encryptedTable}→${pair.mirrorTable}] decrypt/parse failed id=${id}`, err);
+      const failure = recordFailureStatement(pair, id, err, attempts);
+      await exec.execute(failure.sql, failure.params);
     };
 
-    const processRow = async (tx: any, rawRow: RawEncryptedRow & Record<string, any>) => {
-      const normalized = normalizeRow(rawRow, shape);
+    /**
+     * Run a write transaction. The in-memory bookkeeping it records (checkpoints, failed rows,
+     * queued retries) is applied only once it commits, so a rollback never leaves the maps
+     * disagreeing with the database.
+     */
+    const mirrorTransaction = async (fn: (tx: any, effects: MirrorEffects) => Promise<void>) => {
+      const effects: MirrorEffects = { resetCheckpoints: false, checkpoints: new Map(), failures: new Map(), retries: new Map() };
+      await db.writeTransaction((tx) => fn(tx, effects));
+      const checkpoints = await checkpointsReady;
+      if (effects.resetCheckpoints) checkpoints.clear();
+      for (const [id, value] of effects.checkpoints) {
+        if (value === null) checkpoints.delete(id);
+        else checkpoints.set(id, value);
+      }
+      for (const [id, rawRow] of effects.failures) {
+        if (rawRow === null) failedRows.delete(id);
+        else failedRows.set(id, rawRow);
+      }
+      for (const [key, retry] of effects.retries) {
+        cancelRetry(key);
+        if (retry) scheduleRetry(retry.rawRow, retry.attempt, retry.missingKey);
+      }
+    };
+
+    const resolveProvider = async (normalized: RawEncryptedRow & Record<string, any>) => {
       let provider: CryptoProvider | null | undefined = runtime.crypto;
       if (config.resolveCrypto) {
         provider = await config.resolveCrypto({ row: normalized, pair, runtime });
         if (provider === undefined) {
           provider = runtime.crypto;
         }
+      } else if (config.keyRing) {
+        provider = await config.keyRing.resolve({ kid: normalized.kid ?? null, row: normalized, pair });
       }
+      return provider;
+    };
 
+    const processRow = async (
+      tx: any,
+      rawRow: RawEncryptedRow & Record<string, any>,
+      effects: MirrorEffects,
+    ) => {
+      const normalized = normalizeRow(rawRow, shape);
+      const provider = await resolveProvider(normalized);
       if (!provider) {
-        throw new Error('crypto provider unavailable');
+        const kid = normalized.kid ?? null;
+        const err = new KeyUnavailableError(kid ? `key ${kid} not available yet` : "crypto provider unavailable", { kid });
+        missingKeys.add(err);
+        throw err;
       }
 
+      const aad = resolveDecryptAad(pair, normalized);
       const env = columnsToEnvelope(normalized);
-      const plain = await provider.decrypt(env, normalized.aad ?? undefined);
-      const parsed = pair.parsePlain({
+      let plain: Uint8Array;
+      try {
+        plain = await provider.decrypt(env, aad);
+      } catch (err) {
+        if (err instanceof AuthenticationFailedError && normalized.kid && provider.keyId === normalized.kid) {
+          finalFailures.add(err);
+        }
+        throw err;
+      }
+      const decrypted = pair.parsePlain({
         plaintext: plain,
-        aad: normalized.aad ?? undefined,
+        aad,
         encryptedRow: { ...rawRow, ...normalized },
       });
+      let parsed = decrypted;
+      // Passthrough values are copied as stored; parsePlain only fills in rows where they are NULL.
+      for (const col of pair.passthroughColumns ?? []) {
+        parsed = { ...parsed, [col.name]: rawRow[col.name] ?? (decrypted as any)[col.name] ?? null };
+      }
+      if (config.transform) {
+        parsed = await config.transform({ values: parsed, decrypted, row: normalized, pair, runtime });
+      }
       const base = [
         normalized.id,
         normalized.user_id,
         normalized.bucket_id ?? null,
         normalized.updated_at,
       ];
-      const customVals = pair.mirrorColumns.map((col) => (parsed as any)[col.name] ?? null);
+      const customVals = upsert.custom.map((name) => (parsed as any)[name] ?? null);
       await tx.execute(upsert.deleteSql, [normalized.id]);
       await tx.execute(upsert.insertSql, [...base, ...customVals]);
+      if (search) {
+        await tx.execute(search.deleteSql, [normalized.id]);
+        await tx.execute(search.insertSql, [
+          normalized.id,
+          normalized.bucket_id ?? null,
+          ...search.columns.map((name) => (parsed as any)[name] ?? null),
+        ]);
+      }
+      const cleared = clearFailureStatement(pair, normalized.id);
+      await tx.execute(cleared.sql, cleared.params);
+      effects.failures.set(normalized.id, null);
+      const current = fingerprint(rawRow);
+      const checkpoint = saveCheckpointStatement(pair, normalized.id, current);
+      await tx.execute(checkpoint.sql, checkpoint.params);
+      effects.checkpoints.set(normalized.id, current);
     };
 
-    const scheduleRetry = (rawRow: RawEncryptedRow & Record<string, any>, attempt: number) => {
-      if (attempt > MAX_RETRIES) {
-        return;
-      }
+    const scheduleRetry = (rawRow: RawEncryptedRow & Record<string, any>, attempt: number, missingKey = false) => {
       const normalized = normalizeRow(rawRow, shape);
       const retryKey = `${pair.mirrorTable}:${normalized.id}`;
 
@@ -203,27 +455,104 @@ export function startEncryptedMirrorSubscriptions(
       }
 
       pendingRetries.set(retryKey, attempt);
+      retryRows.set(retryKey, rawRow);
+      // Parked until its key is announced.
+      if (keyNotifier) {
+        // An announcement between the failed lookup and now found nothing parked to wake,
+        // so look the key up once more. Only after a missing key: a provider that failed
+        // to decrypt would resolve again and loop.
+        if (missingKey) void recheckParkedRow(retryKey, rawRow);
+        return;
+      }
       const delay = Math.min(BASE_RETRY_DELAY_MS * attempt, 5_000);
       const timeout = setTimeout(async () => {
         pendingRetries.delete(retryKey);
         retryTimeouts.delete(retryKey);
+        retryRows.delete(retryKey);
         try {
-          await db.writeTransaction(async (retryTx) => {
-            await processRow(retryTx, rawRow);
-          });
+          await mirrorTransaction((retryTx, effects) => processRow(retryTx, rawRow, effects));
         } catch (err) {
-          if (isDecryptKeyError(err) || (err instanceof Error && /crypto provider unavailable/i.test(err.message ?? ''))) {
+          if (isRetryable(err) && attempt < MAX_RETRIES) {
             scheduleRetry(rawRow, attempt + 1);
           } else {
-            // eslint-disable-next-line no-console
-            console.warn(`[mirror ${pair.encryptedTable}→${pair.mirrorTable}] retry failed id=${normalized.id}`, err);
+            // The first attempt ran before any retry.
+            await recordFailure(db, rawRow, err, attempt + 1).then(
+              () => {
+                failedRows.set(normalized.id, rawRow);
+              },
+              (recordErr) => {
+                // eslint-disable-next-line no-console
+                console.warn(`[mirror ${pair.encryptedTable}→${pair.mirrorTable}] could not record failure id=${normalized.id}`, recordErr);
+              },
+            );
           }
         }
+        notify();
       }, delay);
 
       retryTimeouts.set(retryKey, timeout);
     };
 
+    /** Mirror a row, or hand it to the retry queue or the failures table once `tx` commits. */
+    const attemptRow = async (
+      tx: any,
+      rawRow: RawEncryptedRow & Record<string, any>,
+      effects: MirrorEffects,
+      attempt = 1,
+    ): Promise<boolean> => {
+      const retryKey = `${pair.mirrorTable}:${rowId(rawRow)}`;
+      try {
+        await processRow(tx, rawRow, effects);
+        // A retry still queued for an older version of the row would overwrite it.
+        effects.retries.set(retryKey, null);
+        return true;
+      } catch (err) {
+        if (isRetryable(err)) {
+          effects.retries.set(retryKey, { rawRow, attempt, missingKey: missingKeys.has(err as object) });
+        } else {
+          await recordFailure(tx, rawRow, err, attempt);
+          effects.failures.set(rowId(rawRow), rawRow);
+        }
+        return false;
+      }
+    };
+
+    const retryParkedRows = async (ready: [string, RawEncryptedRow & Record<string, any>][], reason: string) => {
+      const attempts = ready.map(([key, rawRow]) => {
+        const attempt = (pendingRetries.get(key) ?? 0) + 1;
+        cancelRetry(key);
+        return { rawRow, attempt };
+      });
+      try {
+        await mirrorTransaction(async (tx, effects) => {
+          for (const { rawRow, attempt } of attempts) {
+            await attemptRow(tx, rawRow, effects, attempt);
+          }
+        });
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.warn(`[mirror ${pair.encryptedTable}→${pair.mirrorTable}] retry after ${reason} failed`, err);
+        for (const { rawRow, attempt } of attempts) scheduleRetry(rawRow, attempt);
+      }
+      notify();
+    };
+
+    const retryWaitingRows = async (event: KeyAvailableEvent) => {
+      const ready = [...retryRows].filter(([, rawRow]) => waitsForKey(normalizeRow(rawRow, shape), event));
+      if (ready.length === 0) return;
+      await retryParkedRows(ready, `key ${event.kid}`);
+    };
+
+    const recheckParkedRow = async (retryKey: string, rawRow: RawEncryptedRow & Record<string, any>) => {
+      const provider = await resolveProvider(normalizeRow(rawRow, shape)).catch(() => null);
+      // Still parked with this version of the row, and its key has arrived in the meantime.
+      if (!provider || retryRows.get(retryKey) !== rawRow) return;
+      await retryParkedRows([[retryKey, rawRow]], `recheck of ${rowId(rawRow)}`);
+    };
+    const stopKeyEvents = keyNotifier?.onKeyAvailable((event) => {
+      void retryWaitingRows(event);
+    });
+
     const query = db.query<RawEncryptedRow & Record<string, any>>({ sql, parameters });
     const sub = query
       .differentialWatch({ throttleMs: throttle, rowComparator: comparator })
@@ -233,28 +562,34 @@ export function startEncryptedMirrorSubscriptions(
             return;
           }
 
-          await db.writeTransaction(async (tx) => {
-            const normalizeUpdated = (updated ?? []).map((item: any) => (item && 'current' in item ? item.current : item));
-            const work = [...(added ?? []), ...normalizeUpdated];
-
-            for (const rawRow of work) {
-              try {
-                await processRow(tx, rawRow);
-              } catch (err) {
-                if (isDecryptKeyError(err) || (err instanceof Error && /crypto provider unavailable/i.test(err.message ?? ''))) {
-                  scheduleRetry(rawRow, 1);
-                } else {
-                  // eslint-disable-next-line no-console
-                  console.warn(`[mirror ${pair.encryptedTable}→${pair.mirrorTable}] decrypt/parse failed id=${rawRow[shape.id] ?? rawRow.id}`, err);
-                }
+          const checkpoints = await checkpointsReady;
+          const normalizeUpdated = (updated ?? []).map((item: any) => (item && 'current' in item ? item.current : item));
+          // Skip rows the mirror already reflects; after a restart that is most of them.
+          const work = [...(added ?? []), ...normalizeUpdated]
+            .filter((rawRow) => checkpoints.get(rowId(rawRow)) !== fingerprint(rawRow));
+
+          if (work.length > 0 || (removed?.length ?? 0) > 0) {
+            await mirrorTransaction(async (tx, effects) => {
+              for (const rawRow of work) {
+                await attemptRow(tx, rawRow, effects);
               }
-            }
 
-            for (const rawRow of removed ?? []) {
-              const normalized = normalizeRow(rawRow, shape);
-              await tx.execute(`DELETE FROM ${pair.mirrorTable} WHERE ${shape.id} = ?`, [normalized.id]);
-            }
-          });
+              for (const rawRow of removed ?? []) {
+                const normalized = normalizeRow(rawRow, shape);
+                await tx.execute(`DELETE FROM ${pair.mirrorTable} WHERE ${shape.id} = ?`, [normalized.id]);
+                if (search) await tx.execute(search.deleteSql, [normalized.id]);
+                const cleared = clearFailureStatement(pair, normalized.id);
+                await tx.execute(cleared.sql, cleared.params);
+                effects.failures.set(normalized.id, null);
+                effects.retries.set(`${pair.mirrorTable}:${normalized.id}`, null);
+                const checkpoint = clearCheckpointStatement(pair, normalized.id);
+                await tx.execute(checkpoint.sql, checkpoint.params);
+                effects.checkpoints.set(normalized.id, null);
+              }
+            });
+          }
+          lastSyncAt = new Date().toISOString();
+          notify();
         },
         onError: (err: unknown) => {
           // eslint-disable-next-line no-console
@@ -262,14 +597,61 @@ export function startEncryptedMirrorSubscriptions(
         },
       });
     subs.push({
+      pair,
       close: () => {
+        stopKeyEvents?.();
         clearRetryTimers();
         sub?.();
       },
+      status: () => ({ pendingRetries: pendingRetries.size, failures: failedRows.size, lastSyncAt }),
+      redrive: async (ids) => {
+        await checkpointsReady;
+        const wanted = ids ? new Set(ids) : null;
+        const rows = new Map<string, RawEncryptedRow & Record<string, any>>();
+        for (const [id, rawRow] of failedRows) {
+          if (!wanted || wanted.has(id)) rows.set(id, rawRow);
+        }
+        // Taken off the retry queue so their timers do not race the redrive; put back if it fails.
+        const waiting: { rawRow: RawEncryptedRow & Record<string, any>; attempt: number }[] = [];
+        for (const [key, rawRow] of [...retryRows]) {
+          const id = rowId(rawRow);
+          if (wanted && !wanted.has(id)) continue;
+          waiting.push({ rawRow, attempt: pendingRetries.get(key) ?? 1 });
+          cancelRetry(key);
+          rows.set(id, rawRow);
+        }
+        if (rows.size === 0) return 0;
+        let mirrored = 0;
+        try {
+          await mirrorTransaction(async (tx, effects) => {
+            for (const rawRow of rows.values()) {
+              if (await attemptRow(tx, rawRow, effects)) mirrored++;
+            }
+          });
+        } catch (err) {
+          for (const { rawRow, attempt } of waiting) scheduleRetry(rawRow, attempt);
+          throw err;
+        }
+        return mirrored;
+      },
+      rebuild: async () => {
+        await checkpointsReady;
+        const rows = await db.getAll<RawEncryptedRow & Record<string, any>>(sql, parameters);
+        let mirrored = 0;
+        await mirrorTransaction(async (tx, effects) => {
+          await tx.execute(`DELETE FROM ${checkpointsTable(pair)}`);
+          effects.resetCheckpoints = true;
+          for (const rawRow of rows) {
+            if (await attemptRow(tx, rawRow, effects)) mirrored++;
+          }
+        });
+        return mirrored;
+      },
     });
   }
 
-  return () => {
+  const stop = () => {
+    listeners.clear();
     for (const sub of subs) {
       try {
         sub.close();
@@ -279,6 +661,46 @@ export function startEncryptedMirrorSubscriptions(
       }
     }
   };
+
+  const selected = (mirrorTable?: string) =>
+    subs.filter((sub) => !mirrorTable || sub.pair.mirrorTable === mirrorTable);
+
+  return Object.assign(stop, {
+    status,
+    onStatus: (listener: (status: MirrorStatus) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    listFailures: async (mirrorTable?: string) => {
+      const lists = await Promise.all(selected(mirrorTable).map((sub) => listMirrorFailures(db, sub.pair)));
+      return lists.flat();
+    },
+    rebuildMirror: async (pair?: EncryptedPairConfig | string) => {
+      const mirrorTable = typeof pair === "string" ? pair : pair?.mirrorTable;
+      let mirrored = 0;
+      try {
+        for (const sub of selected(mirrorTable)) {
+          mirrored += await sub.rebuild();
+        }
+      } finally {
+        notify();
+      }
+      return mirrored;
+    },
+    redrive: async (opts?: RedriveOptions) => {
+      let mirrored = 0;
+      try {
+        for (const sub of selected(opts?.mirrorTable)) {
+          mirrored += await sub.redrive(opts?.ids);
+        }
+      } finally {
+        notify();
+      }
+      return mirrored;
+    },
+  });
 }
 
 /** Start watchers that keep plaintext mirrors updated from encrypted tables */
@@ -0,0 +1,133 @@
+import type { AbstractPowerSyncDatabase } from "@powersync/web";
+import type { EncryptedPairConfig, MirrorBaseRow } from "./types.js";
+import { resolveTableShape } from "./types.js";
+
+/** Marks the start and end of each match in `searchMirror` snippets. */
+export const SNIPPET_MATCH_START = "\u0002";
+export const SNIPPET_MATCH_END = "\u0003";
+
+export type SearchMirrorOptions = {
+  /** Only search rows of this bucket (e.g. one room). */
+  bucketId?: string;
+  limit?: number;
+  /** Tokens shown around each match in the snippet. */
+  snippetTokens?: number;
+};
+
+export type MirrorSearchHit<TRow = MirrorBaseRow & Record<string, any>> = {
+  row: TRow;
+  /** Matching excerpt, with matches wrapped in `SNIPPET_MATCH_START` / `SNIPPET_MATCH_END`. */
+  snippet: string;
+};
+
+export type SnippetPart = { text: string; match: boolean };
+
+type SearchablePair = Pick<EncryptedPairConfig, "mirrorTable" | "searchColumns" | "tableShape">;
+
+/** Local-only FTS5 table over a pair's `searchColumns`; created by `ensurePairsDDL`. */
+export function searchTable(pair: Pick<EncryptedPairConfig, "mirrorTable">): string {
+  return `${pair.mirrorTable}_fts`;
+}
+
+/** DDL for the FTS5 table, and an INSERT that indexes rows already in the mirror. */
+export function searchTableDDL(pair: SearchablePair): { create: string; backfill: string } | null {
+  const columns = pair.searchColumns ?? [];
+  if (columns.length === 0) return null;
+  const shape = resolveTableShape(pair.tableShape);
+  const fts = searchTable(pair);
+  return {
+    create: `
+      CREATE VIRTUAL TABLE IF NOT EXISTS ${fts} USING fts5(
+        id UNINDEXED,
+        bucket_id UNINDEXED,
+        ${columns.join(",\n        ")},
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+      `,
+    backfill: `
+      INSERT INTO ${fts} (id, bucket_id, ${columns.join(", ")})
+      SELECT ${shape.id}, ${shape.bucketId}, ${columns.join(", ")} FROM ${pair.mirrorTable}
+      `,
+  };
+}
+
+/** Statements the replicator runs next to each mirror write; null when the pair is not searchable. */
+export function searchIndexStatements(pair: SearchablePair) {
+  const columns = pair.searchColumns ?? [];
+  if (columns.length === 0) return null;
+  const fts = searchTable(pair);
+  const placeholders = ["?", "?", ...columns.map(() => "?")].join(", ");
+  return {
+    columns,
+    insertSql: `INSERT INTO ${fts} (id, bucket_id, ${columns.join(", ")}) VALUES (${placeholders})`,
+    deleteSql: `DELETE FROM ${fts} WHERE id = ?`,
+  };
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must appear, each as a prefix. Quoting keeps
+ * FTS5 operators and punctuation in user input from being parsed as query syntax.
+ */
+export function toMatchQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .map((term) => term.trim())
+    .filter(Boolean)
+    .map((term) => `"${term.replace(/"/g, '""')}"*`);
+  return terms.length > 0 ? terms.join(" ") : null;
+}
+
+/** Full-text search over a pair's decrypted mirror, best matches first. */
+export async function searchMirror<TRow = MirrorBaseRow & Record<string, any>>(
+  db: Pick<AbstractPowerSyncDatabase, "getAll">,
+  pair: SearchablePair,
+  query: string,
+  opts?: SearchMirrorOptions,
+): Promise<MirrorSearchHit<TRow>[]> {
+  if (!pair.searchColumns?.length) {
+    throw new Error(`${pair.mirrorTable} has no searchColumns`);
+  }
+  const match = toMatchQuery(query);
+  if (!match) return [];
+  const shape = resolveTableShape(pair.tableShape);
+  const fts = searchTable(pair);
+  const params: any[] = [SNIPPET_MATCH_START, SNIPPET_MATCH_END, opts?.snippetTokens ?? 12, match];
+  let bucketFilter = "";
+  if (opts?.bucketId !== undefined) {
+    bucketFilter = `AND ${fts}.bucket_id = ?`;
+    params.push(opts.bucketId);
+  }
+  params.push(opts?.limit ?? 50);
+  const rows = await db.getAll<Record<string, any>>(
+    `
+      SELECT m.*, snippet(${fts}, -1, ?, ?, '…', ?) AS search_snippet
+        FROM ${fts}
+        JOIN ${pair.mirrorTable} m ON m.${shape.id} = ${fts}.id
+       WHERE ${fts} MATCH ?
+         ${bucketFilter}
+       ORDER BY rank
+       LIMIT ?
+    `,
+    params,
+  );
+  return rows.map(({ search_snippet, ...row }) => ({ row: row as TRow, snippet: String(search_snippet ?? "") }));
+}
+
+/** Split a snippet into plain and matching parts, e.g. to render matches without HTML. */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let rest = snippet;
+  while (rest) {
+    const start = rest.indexOf(SNIPPET_MATCH_START);
+    if (start === -1) {
+      parts.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), match: false });
+    const end = rest.indexOf(SNIPPET_MATCH_END, start + 1);
+    const stop = end === -1 ? rest.length : end;
+    parts.push({ text: rest.slice(start + 1, stop), match: true });
+    rest = rest.slice(stop + 1);
+  }
+  return parts;
+}
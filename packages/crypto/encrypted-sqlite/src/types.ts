@@ -1,7 +1,12 @@
 import type { AbstractPowerSyncDatabase } from "@powersync/web";
-import type { CipherEnvelope, CryptoProvider, EncryptedColumns} from "@crypto/interface";
+import type { CipherEnvelope, CryptoProvider, EncryptedColumns, KeyId } from "@crypto/interface";
 import sodium from "libsodium-wrappers";
-import { bytesToBase64, base64ToBytes } from "@crypto/interface";
+import {
+  AuthenticationFailedError,
+  UnsupportedAlgorithmError,
+  bytesToBase64,
+  envelopeBytes,
+} from "@crypto/interface";
 
 
 /** Mirror column definition (SQLite flavor) */
@@ -12,6 +17,25 @@ export type MirrorColumnDef = {
   defaultExpr?: string;   // raw SQL default expression (e.g., "0", "'pending'")
 };
 
+/**
+ * Plaintext column stored next to the ciphertext (for values the backend needs, e.g. a
+ * timestamp its triggers fill in) and copied verbatim into the mirror; `parsePlain` only
+ * supplies rows where it is NULL. `notNull` only applies to the mirror, so writes may leave
+ * the encrypted-table column to the server.
+ */
+export type PassthroughColumnDef<TSerialize = any> = MirrorColumnDef & {
+  value?: (obj: TSerialize) => unknown; // read the value from the `object` being written
+};
+
+export function mirrorColumnDDL(col: MirrorColumnDef): string {
+  return [
+    col.name,
+    col.type,
+    col.notNull ? "NOT NULL" : "",
+    col.defaultExpr ? `DEFAULT ${col.defaultExpr}` : ""
+  ].filter(Boolean).join(" ");
+}
+
 /** Values mapped into the mirror (by parsePlain) */
 export type MirrorValues = Record<string, any>;
 
@@ -44,9 +68,11 @@ export type EncryptedTableShape = {
   kdfSaltColumn?: string;
   createdAtColumn?: string;
   updatedAtColumn?: string;
+  /** Opt-in: column storing the envelope's key id (`header.kid`). Not stored when omitted. */
+  kidColumn?: string;
 };
 
-export function defaultTableShape(): Required<EncryptedTableShape> {
+export function defaultTableShape(): Required<Omit<EncryptedTableShape, 'kidColumn'>> {
   return {
     idColumn: 'id',
     userIdColumn: 'user_id',
@@ -74,25 +100,74 @@ export function resolveTableShape(shape?: EncryptedTableShape) {
     kdfSalt: shape?.kdfSaltColumn ?? defaults.kdfSaltColumn,
     createdAt: shape?.createdAtColumn ?? defaults.createdAtColumn,
     updatedAt: shape?.updatedAtColumn ?? defaults.updatedAtColumn,
+    kid: shape?.kidColumn ?? null,
   };
 }
 
+/**
+ * Blind index: a keyed HMAC of a normalized plaintext value, stored next to the ciphertext so
+ * the server and sync rules can match rows on equality without learning the value.
+ */
+export type BlindIndexDef<TSerialize = any> = {
+  name: string;                    // used in lookups and mixed into each HMAC
+  column?: string;                 // encrypted-table column; defaults to `<name>_bidx`
+  value?: (obj: TSerialize) => string | null | undefined; // read the value from the `object` being written
+  normalize?: (value: string) => string; // defaults to NFKC, trimmed, lower-case
+};
+
+/** Derives blind index keys from the key material it holds (e.g. a DEK). */
+export interface BlindIndexKeySource {
+  blindIndexKey(context: string): Promise<Uint8Array>;
+}
+
+/** "row" binds table/id/user/bucket into the AAD on write; "static" uses the pair `aad` verbatim */
+export type AadBindingMode = "row" | "static";
+
 export type EncryptedPairConfig<TSerialize = any> = {
   name: string;
   encryptedTable: string;         // visible to PowerSync (Sync Rules `type`)
   mirrorTable: string;            // local-only plaintext table with custom columns
   mirrorColumns: MirrorColumnDef[]; // custom columns (id/user_id/bucket_id/updated_at are implicit)
+  mirrorVersion?: number;          // optional: bump to rebuild the mirror, e.g. when parsePlain changes (default 1)
   aad?: string;                    // default AAD for encryption
+  aadBinding?: AadBindingMode;     // optional: defaults to "row"
+  acceptLegacyAad?: boolean;       // optional: decrypt rows written with a static AAD (default true)
   parsePlain: ParsePlainFn;        // bytes -> column values
   serializePlain?: SerializePlainFn<TSerialize>; // object -> bytes (optional)
   mirrorExtraIndexes?: string[];   // optional: extra CREATE INDEX statements
+  passthroughColumns?: PassthroughColumnDef<TSerialize>[]; // optional: plaintext columns in both tables
+  searchColumns?: string[];        // optional: mirror columns to index in an FTS5 table
+  blindIndexes?: BlindIndexDef<TSerialize>[]; // optional: keyed-HMAC columns for equality lookups
   tableShape?: EncryptedTableShape;        // optional overrides for encrypted table column names
 };
 
+/** One encrypted column of a column-mode pair; its mirror column has the same name. */
+export type EncryptedColumnDef = MirrorColumnDef & {
+  encode?: (value: any) => Uint8Array;   // value -> bytes to encrypt (default: JSON)
+  decode?: (plain: Uint8Array) => any;   // decrypted bytes -> mirror value (default: JSON)
+};
+
+/**
+ * Column mode: encrypt some columns of an existing PowerSync table in place. Each encrypted
+ * column holds a compact envelope string (see `encodeEnvelope`); other columns stay queryable.
+ */
+export type EncryptedColumnPairConfig = {
+  mode: "columns";
+  name: string;
+  table: string;                   // existing PowerSync table (Sync Rules `type`)
+  mirrorTable: string;             // local-only table with decrypted values
+  encryptedColumns: EncryptedColumnDef[];
+  plainColumns?: MirrorColumnDef[]; // optional: columns of `table` copied into the mirror as is
+  aad?: string;                    // optional label bound into each column's AAD
+  acceptLegacyPlaintext?: boolean; // optional: mirror values that are not envelopes as stored (default false)
+};
+
 export type EncryptedRuntime = {
   db: AbstractPowerSyncDatabase;
   userId: string;
   crypto: CryptoProvider;
+  /** Keys for the pairs' `blindIndexes`; defaults to `crypto` when it is a key source (as `DEKCryptoProvider` is). */
+  blindIndexKeys?: BlindIndexKeySource;
 };
 
 export type MirrorBaseRow = {
@@ -126,7 +201,8 @@ export function columnsToEnvelope<T extends EncryptedColumns>(args: T): CipherEn
       v: 1,
       alg: args.alg,
       aad: args.aad ?? undefined,
-      kdf: { saltB64: args.kdf_salt_b64 ?? "" }
+      kdf: { saltB64: args.kdf_salt_b64 ?? "" },
+      ...(args.kid ? { kid: args.kid } : {})
     },
     nB64: args.nonce_b64,
     cB64: args.cipher_b64
@@ -138,14 +214,18 @@ export function utf8(str: string): Uint8Array {
   return new TextEncoder().encode(str);
 }
 
-/** Symmetric crypto provider that operates with a raw DEK (Uint8Array). */
-export class DEKCryptoProvider implements CryptoProvider {
-  readonly keyId = undefined;
+/**
+ * Symmetric crypto provider that operates with a raw DEK (Uint8Array). When given a `kid`,
+ * every envelope it produces records it so readers can pick this key from a `KeyRing`.
+ */
+export class DEKCryptoProvider implements CryptoProvider, BlindIndexKeySource {
+  readonly keyId: KeyId | undefined;
   private key: Uint8Array;
   private static readonly ALG = "xchacha20poly1305/raw";
 
-  constructor(key: Uint8Array) {
+  constructor(key: Uint8Array, opts?: { kid?: KeyId }) {
     this.key = key;
+    this.keyId = opts?.kid;
   }
 
   async encrypt(plain: Uint8Array, aad?: string): Promise<CipherEnvelope> {
@@ -161,25 +241,43 @@ export class DEKCryptoProvider implements CryptoProvider {
       this.key,
     );
     return {
-      header: { v: 1, alg: DEKCryptoProvider.ALG, aad, kdf: { saltB64: "" } },
+      header: {
+        v: 1,
+        alg: DEKCryptoProvider.ALG,
+        aad,
+        kdf: { saltB64: "" },
+        ...(this.keyId ? { kid: this.keyId } : {}),
+      },
       nB64: bytesToBase64(nonce),
       cB64: bytesToBase64(ct),
     };
   }
 
+  /** Keyed BLAKE2b of `context` under the DEK; the DEK itself never leaves the provider. */
+  async blindIndexKey(context: string): Promise<Uint8Array> {
+    await sodium.ready;
+    return sodium.crypto_generichash(32, sodium.from_string(`blind-index:${context}`), this.key);
+  }
+
   async decrypt(env: CipherEnvelope, aad?: string): Promise<Uint8Array> {
     await sodium.ready;
-    const nonce = base64ToBytes(env.nB64);
-    const ct = base64ToBytes(env.cB64);
-    return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
-      null,
-      ct,
-      (aad ?? env.header.aad)
-        ? new TextEncoder().encode(aad ?? env.header.aad!)
-        : null,
-      nonce,
-      this.key,
-    );
+    if (env.header.alg !== DEKCryptoProvider.ALG) {
+      throw new UnsupportedAlgorithmError(`Unsupported alg: ${env.header.alg}`);
+    }
+    const { nonce, ct } = envelopeBytes(env, sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    try {
+      return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+        null,
+        ct,
+        (aad ?? env.header.aad)
+          ? new TextEncoder().encode(aad ?? env.header.aad!)
+          : null,
+        nonce,
+        this.key,
+      );
+    } catch (cause) {
+      throw new AuthenticationFailedError(undefined, { cause });
+    }
   }
 }
 
@@ -188,6 +286,6 @@ export async function generateDEK(): Promise<Uint8Array> {
   return sodium.randombytes_buf(32);
 }
 
-export function createDEKCrypto(dek: Uint8Array): DEKCryptoProvider {
-  return new DEKCryptoProvider(dek);
+export function createDEKCrypto(dek: Uint8Array, opts?: { kid?: KeyId }): DEKCryptoProvider {
+  return new DEKCryptoProvider(dek, opts);
 }
\ No newline at end of file
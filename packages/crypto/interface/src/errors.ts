@@ -0,0 +1,53 @@
+import type { KeyId } from './index.js';
+
+type CryptoErrorOptions = { cause?: unknown };
+
+/**
+ * Base class for errors raised by `CryptoProvider`s and envelope helpers. Callers branch
+ * on the subclass rather than on messages, which differ between crypto libraries.
+ */
+export class CryptoError extends Error {
+  readonly cause?: unknown;
+  constructor(message: string, opts?: CryptoErrorOptions) {
+    super(message);
+    this.name = 'CryptoError';
+    if (opts && 'cause' in opts) this.cause = opts.cause;
+  }
+}
+
+/**
+ * The key for an envelope is not available right now: locked, zeroized, or not synced to
+ * this device yet. Retrying later may succeed.
+ */
+export class KeyUnavailableError extends CryptoError {
+  readonly kid: KeyId | null;
+  constructor(message: string, opts?: CryptoErrorOptions & { kid?: KeyId | null }) {
+    super(message, opts);
+    this.name = 'KeyUnavailableError';
+    this.kid = opts?.kid ?? null;
+  }
+}
+
+/** AEAD verification failed: wrong key, wrong AAD, or tampered ciphertext. */
+export class AuthenticationFailedError extends CryptoError {
+  constructor(message = 'ciphertext cannot be decrypted using that key', opts?: CryptoErrorOptions) {
+    super(message, opts);
+    this.name = 'AuthenticationFailedError';
+  }
+}
+
+/** The envelope names an algorithm or KDF this provider cannot use. */
+export class UnsupportedAlgorithmError extends CryptoError {
+  constructor(message: string, opts?: CryptoErrorOptions) {
+    super(message, opts);
+    this.name = 'UnsupportedAlgorithmError';
+  }
+}
+
+/** The envelope is structurally invalid (bad base64, wrong nonce length, missing fields). */
+export class MalformedEnvelopeError extends CryptoError {
+  constructor(message: string, opts?: CryptoErrorOptions) {
+    super(message, opts);
+    this.name = 'MalformedEnvelopeError';
+  }
+}
@@ -1,3 +1,6 @@
+export * from './errors.js';
+import { MalformedEnvelopeError } from './errors.js';
+
 export type KeyId = string;
 
 export interface KdfParams {
@@ -22,6 +25,8 @@ export interface EnvelopeHeader {
   aad?: string;
   /** KDF parameters for key derivation */
   kdf: KdfParams;
+  /** id of the key that produced the envelope, when the provider has one */
+  kid?: KeyId;
 }
 
 export interface CipherEnvelope {
@@ -39,6 +44,7 @@ export interface EncryptedColumns {
   nonce_b64: string;
   cipher_b64: string;
   kdf_salt_b64: string;
+  kid?: string | null;
 }
 
 /**
@@ -51,6 +57,7 @@ export function envelopeToColumns(env: CipherEnvelope, aad?: string | null): Enc
     nonce_b64: env.nB64,
     cipher_b64: env.cB64,
     kdf_salt_b64: env.header.kdf.saltB64 ?? '',
+    kid: env.header.kid ?? null,
   };
 }
 
@@ -64,12 +71,65 @@ export function columnsToEnvelope(cols: EncryptedColumns): CipherEnvelope {
       alg: cols.alg,
       aad: cols.aad ?? undefined,
       kdf: { saltB64: cols.kdf_salt_b64 },
+      ...(cols.kid ? { kid: cols.kid } : {}),
     },
     nB64: cols.nonce_b64,
     cB64: cols.cipher_b64,
   };
 }
 
+/** Prefix of strings produced by `encodeEnvelope`. */
+export const COMPACT_ENVELOPE_PREFIX = 'ce1';
+
+/**
+ * Encode an envelope as one string, for storing in a single column:
+ * `ce1|alg|kid|kdf|nonce|ciphertext`. The AAD is not included; callers bind it from context.
+ * The KDF part is the salt, or JSON when the envelope carries further KDF parameters.
+ */
+export function encodeEnvelope(env: CipherEnvelope): string {
+  const { saltB64, ...kdfRest } = env.header.kdf;
+  const kdf = Object.keys(kdfRest).length > 0 ? JSON.stringify(env.header.kdf) : saltB64 ?? '';
+  return [
+    COMPACT_ENVELOPE_PREFIX,
+    encodeURIComponent(env.header.alg),
+    encodeURIComponent(env.header.kid ?? ''),
+    encodeURIComponent(kdf),
+    env.nB64,
+    env.cB64,
+  ].join('|');
+}
+
+export function isEncodedEnvelope(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(`${COMPACT_ENVELOPE_PREFIX}|`);
+}
+
+/** Parse an `encodeEnvelope` string; `aad` is set on the header when given. */
+export function decodeEnvelope(encoded: string, aad?: string): CipherEnvelope {
+  const parts = encoded.split('|');
+  if (parts.length !== 6 || parts[0] !== COMPACT_ENVELOPE_PREFIX) {
+    throw new MalformedEnvelopeError('Not a compact envelope');
+  }
+  const [, alg, kid, kdf, nB64, cB64] = parts;
+  let kdfParams: KdfParams;
+  try {
+    const decoded = decodeURIComponent(kdf);
+    kdfParams = decoded.startsWith('{') ? (JSON.parse(decoded) as KdfParams) : { saltB64: decoded };
+    return {
+      header: {
+        v: 1,
+        alg: decodeURIComponent(alg),
+        aad,
+        kdf: kdfParams,
+        ...(kid ? { kid: decodeURIComponent(kid) } : {}),
+      },
+      nB64,
+      cB64,
+    };
+  } catch (cause) {
+    throw new MalformedEnvelopeError('Compact envelope header is not valid', { cause });
+  }
+}
+
 export interface CryptoProvider {
   /** Optional stable id for telemetry/rotation */
   readonly keyId?: KeyId;
@@ -77,6 +137,17 @@ export interface CryptoProvider {
   decrypt(env: CipherEnvelope, aad?: string): Promise<Uint8Array>;
 }
 
+/** Named password KDF cost levels (libsodium interactive/moderate/sensitive). */
+export type KdfProfileName = 'interactive' | 'moderate' | 'sensitive';
+
+/** Explicit KDF costs; omitted parts fall back to the "moderate" profile. */
+export interface KdfCustomProfile {
+  argon2id?: { opsLimit: number; memLimit: number };
+  pbkdf2?: { iterations: number };
+}
+
+export type KdfProfile = KdfProfileName | KdfCustomProfile;
+
 export interface PasswordInit {
   /** UTF-8 password */
   password: string;
@@ -84,6 +155,12 @@ export interface PasswordInit {
   saltB64?: string;
   /** Prefer WebCrypto PBKDF2 (even if Argon2id is available). */
   preferWebCrypto?: boolean;
+  /** KDF cost used when encrypting (default "moderate"). Decrypt always uses the envelope's recorded parameters. */
+  kdfProfile?: KdfProfile;
+  /** Keep the salt generated by the first encrypt for later ones, so the derived key can be reused for the session. */
+  reuseSalt?: boolean;
+  /** Maximum number of derived keys held in memory, keyed by salt + KDF parameters (default 4, 0 disables caching). */
+  keyCacheSize?: number;
 }
 
 // Note: Concrete provider specializations (e.g., PasswordCrypto, WebAuthnCrypto)
@@ -113,3 +190,25 @@ export function bytesToBase64(bytes: Uint8Array): string {
   // Node
   return Buffer.from(bytes).toString('base64');
 }
+
+/**
+ * Decode an envelope's nonce and ciphertext, checking the nonce length the cipher expects.
+ * Throws `MalformedEnvelopeError` instead of whatever the base64 decoder raises.
+ */
+export function envelopeBytes(env: CipherEnvelope, nonceBytes: number): { nonce: Uint8Array; ct: Uint8Array } {
+  if (typeof env?.nB64 !== 'string' || typeof env?.cB64 !== 'string') {
+    throw new MalformedEnvelopeError('Envelope is missing its nonce or ciphertext');
+  }
+  let nonce: Uint8Array;
+  let ct: Uint8Array;
+  try {
+    nonce = base64ToBytes(env.nB64);
+    ct = base64ToBytes(env.cB64);
+  } catch (cause) {
+    throw new MalformedEnvelopeError('Envelope nonce or ciphertext is not valid base64', { cause });
+  }
+  if (nonce.length !== nonceBytes) {
+    throw new MalformedEnvelopeError(`Envelope nonce must be ${nonceBytes} bytes, got ${nonce.length}`);
+  }
+  return { nonce, ct };
+}
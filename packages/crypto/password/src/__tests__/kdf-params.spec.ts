@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { createPasswordCrypto, KdfParamsError } from '../index';
+
+const password = 'correct horse battery staple';
+const msg = new TextEncoder().encode('hello secret world');
+
+describe('password KDF parameters', () => {
+  it('decrypts envelopes written with non-default argon2id costs', async () => {
+    const writer = createPasswordCrypto({
+      password,
+      kdfProfile: { argon2id: { opsLimit: 3, memLimit: 32 * 1024 * 1024 } },
+    });
+    const env = await writer.encrypt(msg, 'ctx');
+    expect(env.header.kdf).toMatchObject({ alg: 'argon2id13', opsLimit: 3, memLimit: 32 * 1024 * 1024 });
+
+    const reader = createPasswordCrypto({ password, kdfProfile: 'sensitive' });
+    const out = await reader.decrypt(env);
+    expect(new TextDecoder().decode(out)).toBe('hello secret world');
+  });
+
+  it('records PBKDF2 iterations from the selected profile', async () => {
+    const crypto = createPasswordCrypto({ password, preferWebCrypto: true, kdfProfile: 'interactive' });
+    const env = await crypto.encrypt(msg);
+    expect(env.header.alg).toBe('xchacha20poly1305/pbkdf2');
+    expect(env.header.kdf).toMatchObject({ alg: 'pbkdf2-sha256', iterations: 100_000 });
+    expect(new TextDecoder().decode(await crypto.decrypt(env))).toBe('hello secret world');
+  });
+
+  it('rejects weak, excessive, or unknown parameters with a typed error', async () => {
+    const crypto = createPasswordCrypto({ password, kdfProfile: 'interactive' });
+    const env = await crypto.encrypt(msg);
+
+    const cases: Array<[Record<string, unknown>, string]> = [
+      [{ opsLimit: 1 }, 'too-weak'],
+      [{ memLimit: 1024 }, 'too-weak'],
+      [{ memLimit: 8 * 1024 * 1024 * 1024 }, 'too-expensive'],
+      [{ opsLimit: 2.5 }, 'malformed'],
+      [{ alg: 'scrypt' }, 'unknown-algorithm'],
+    ];
+    for (const [patch, reason] of cases) {
+      const tampered = { ...env, header: { ...env.header, kdf: { ...env.header.kdf, ...patch } } };
+      const err = await crypto.decrypt(tampered).catch((e) => e);
+      expect(err).toBeInstanceOf(KdfParamsError);
+      expect((err as KdfParamsError).reason).toBe(reason);
+    }
+
+    const weakWriter = createPasswordCrypto({ password, preferWebCrypto: true, kdfProfile: { pbkdf2: { iterations: 1_000 } } });
+    await expect(weakWriter.encrypt(msg)).rejects.toBeInstanceOf(KdfParamsError);
+    const inherited = createPasswordCrypto({ password, kdfProfile: 'toString' as any });
+    await expect(inherited.encrypt(msg)).rejects.toMatchObject({ reason: 'unknown-algorithm' });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import sodium from 'libsodium-wrappers-sumo';
+import { createPasswordCrypto } from '../index';
+
+const password = 'correct horse battery staple';
+const msg = new TextEncoder().encode('vault dek');
+
+describe('password key cache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('derives once per salt and KDF parameters', async () => {
+    await sodium.ready;
+    const pwhash = vi.spyOn(sodium, 'crypto_pwhash');
+    const crypto = createPasswordCrypto({ password, kdfProfile: 'interactive', reuseSalt: true });
+
+    const first = await crypto.encrypt(msg, 'vault-dek-v1');
+    const second = await crypto.encrypt(msg, 'identity-key-v1');
+    expect(second.header.kdf.saltB64).toBe(first.header.kdf.saltB64);
+    await crypto.decrypt(first);
+    await crypto.decrypt(second);
+    expect(pwhash).toHaveBeenCalledTimes(1);
+  });
+
+  it('wipes cached keys on lock and re-derives afterwards', async () => {
+    await sodium.ready;
+    const pwhash = vi.spyOn(sodium, 'crypto_pwhash');
+    const crypto = createPasswordCrypto({ password, kdfProfile: 'interactive' });
+
+    const env = await crypto.encrypt(msg);
+    const cachedKey = pwhash.mock.results[0].value as Uint8Array;
+    expect(cachedKey.some((b) => b !== 0)).toBe(true);
+
+    crypto.lock();
+    expect(cachedKey.every((b) => b === 0)).toBe(true);
+
+    const out = await crypto.decrypt(env);
+    expect(new TextDecoder().decode(out)).toBe('vault dek');
+    expect(pwhash).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the least recently used key beyond the cache size', async () => {
+    await sodium.ready;
+    const pwhash = vi.spyOn(sodium, 'crypto_pwhash');
+    const crypto = createPasswordCrypto({ password, kdfProfile: 'interactive', keyCacheSize: 1 });
+
+    const a = await crypto.encrypt(msg);
+    const keyA = pwhash.mock.results[0].value as Uint8Array;
+    await crypto.encrypt(msg);
+    expect(keyA.every((b) => b === 0)).toBe(true);
+
+    await crypto.decrypt(a);
+    expect(pwhash).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives concurrent calls keys that eviction does not wipe', async () => {
+    const crypto = createPasswordCrypto({ password, kdfProfile: 'interactive', keyCacheSize: 1 });
+
+    const envs = await Promise.all([crypto.encrypt(msg), crypto.encrypt(msg), crypto.encrypt(msg)]);
+
+    const reader = createPasswordCrypto({ password });
+    for (const env of envs) {
+      expect(new TextDecoder().decode(await reader.decrypt(env))).toBe('vault dek');
+    }
+  });
+
+  it('wipes keys from derivations superseded by lock once their callers are done', async () => {
+    await sodium.ready;
+    const crypto = createPasswordCrypto({ password, kdfProfile: 'interactive' });
+    const original = sodium.crypto_pwhash;
+    // Lock while the derivation is running.
+    const pwhash = vi.spyOn(sodium, 'crypto_pwhash').mockImplementation((...args) => {
+      const key = original.apply(sodium, args);
+      crypto.lock();
+      return key;
+    });
+
+    const env = await crypto.encrypt(msg);
+
+    expect((pwhash.mock.results[0].value as Uint8Array).every((b) => b === 0)).toBe(true);
+    const out = await createPasswordCrypto({ password }).decrypt(env);
+    expect(new TextDecoder().decode(out)).toBe('vault dek');
+  });
+
+  it('refuses to operate after zeroize', async () => {
+    const crypto = createPasswordCrypto({ password, kdfProfile: 'interactive' });
+    const env = await crypto.encrypt(msg);
+    crypto.zeroize();
+    await expect(crypto.decrypt(env)).rejects.toThrow(/zeroized/);
+  });
+});
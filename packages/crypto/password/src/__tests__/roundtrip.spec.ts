@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AuthenticationFailedError,
+  MalformedEnvelopeError,
+  UnsupportedAlgorithmError,
+} from '@crypto/interface';
+import { createPasswordCrypto, KdfParamsError } from '../index';
+
+describe('password crypto roundtrip', () => {
+  it('encrypts and decrypts', async () => {
+    const crypto = createPasswordCrypto({ password: 'correct horse battery staple' });
+    const msg = new TextEncoder().encode('hello secret world');
+    const env = await crypto.encrypt(msg, 'chat-message-v1');
+    const out = await crypto.decrypt(env);
+    expect(new TextDecoder().decode(out)).toBe('hello secret world');
+  });
+
+  it('reports failures as typed crypto errors', async () => {
+    const crypto = createPasswordCrypto({ password: 'correct horse battery staple', kdfProfile: 'interactive' });
+    const env = await crypto.encrypt(new TextEncoder().encode('hello'), 'ctx');
+
+    const wrongPassword = createPasswordCrypto({ password: 'wrong', kdfProfile: 'interactive' });
+    await expect(wrongPassword.decrypt(env)).rejects.toBeInstanceOf(AuthenticationFailedError);
+    await expect(crypto.decrypt(env, 'other-ctx')).rejects.toBeInstanceOf(AuthenticationFailedError);
+    await expect(crypto.decrypt({ ...env, header: { ...env.header, alg: 'aes-gcm/argon2id' } }))
+      .rejects.toBeInstanceOf(UnsupportedAlgorithmError);
+    await expect(crypto.decrypt({ ...env, nB64: 'AAAA' })).rejects.toBeInstanceOf(MalformedEnvelopeError);
+    expect(new KdfParamsError('too-weak', 'weak')).toBeInstanceOf(UnsupportedAlgorithmError);
+  });
+});
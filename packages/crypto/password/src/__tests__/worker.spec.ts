@@ -0,0 +1,82 @@
+import { describe, it, expect, inject } from 'vitest';
+import { UnsupportedAlgorithmError } from '@crypto/interface';
+import {
+  KdfParamsError,
+  WorkerPasswordProvider,
+  createPasswordCrypto,
+  createPasswordWorkerCrypto,
+  type KdfPhase,
+  type ResolvedKdf
+} from '../index';
+import { createNodeKdfWorker } from '../node';
+
+// Compiled from this source by vitest.global-setup.ts, since worker threads cannot load TypeScript.
+const entry = new URL(inject('kdfWorkerEntry'));
+const createWorker = () => createNodeKdfWorker(entry);
+
+const password = 'correct horse battery staple';
+const msg = new TextEncoder().encode('vault dek');
+
+// Exposes the worker round trip directly, skipping the bounds check the calling thread already does.
+class WorkerDeriveProbe extends WorkerPasswordProvider {
+  deriveInWorker(kdf: ResolvedKdf) {
+    return this.derive(password, new Uint8Array(16), kdf);
+  }
+}
+
+describe('worker-backed password provider', () => {
+  it('writes envelopes the in-thread provider can read, reporting progress', async () => {
+    const phases: KdfPhase[] = [];
+    const crypto = createPasswordWorkerCrypto({
+      password,
+      kdfProfile: 'interactive',
+      createWorker,
+      onProgress: (event) => phases.push(event.phase)
+    });
+    try {
+      const env = await crypto.encrypt(msg, 'vault-dek-v1');
+      expect(phases).toEqual(['queued', 'deriving', 'done']);
+
+      const plain = await createPasswordCrypto({ password }).decrypt(env);
+      expect(new TextDecoder().decode(plain)).toBe('vault dek');
+    } finally {
+      crypto.zeroize();
+    }
+  });
+
+  it('rejects an in-flight derivation when aborted and recovers with a fresh provider', async () => {
+    const controller = new AbortController();
+    const crypto = createPasswordWorkerCrypto({
+      password,
+      kdfProfile: 'sensitive',
+      preferWebCrypto: true,
+      createWorker,
+      signal: controller.signal,
+      onProgress: (event) => {
+        if (event.phase === 'deriving') controller.abort();
+      }
+    });
+    await expect(crypto.encrypt(msg)).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(crypto.encrypt(msg)).rejects.toMatchObject({ name: 'AbortError' });
+
+    const retry = createPasswordWorkerCrypto({ password, kdfProfile: 'interactive', createWorker });
+    try {
+      const env = await retry.encrypt(msg);
+      expect(new TextDecoder().decode(await retry.decrypt(env))).toBe('vault dek');
+    } finally {
+      retry.zeroize();
+    }
+  });
+
+  it('rebuilds the typed error raised in the worker on the calling thread', async () => {
+    const crypto = new WorkerDeriveProbe({ password, createWorker });
+    try {
+      const err = await crypto.deriveInWorker({ kind: 'argon2id', opsLimit: 1, memLimit: 64 * 1024 * 1024 }).catch((e) => e);
+      expect(err).toBeInstanceOf(KdfParamsError);
+      expect(err).toBeInstanceOf(UnsupportedAlgorithmError);
+      expect(err).toMatchObject({ name: 'KdfParamsError', reason: 'too-weak' });
+    } finally {
+      crypto.zeroize();
+    }
+  });
+});
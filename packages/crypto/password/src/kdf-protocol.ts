@@ -0,0 +1,90 @@
+import {
+  AuthenticationFailedError,
+  CryptoError,
+  KeyUnavailableError,
+  MalformedEnvelopeError,
+  UnsupportedAlgorithmError,
+} from '@crypto/interface';
+import { KdfParamsError, assertKdfBounds, deriveKey, type KdfParamsErrorReason, type ResolvedKdf } from './kdf.js';
+
+/**
+ * Progress phases reported by the worker-backed provider:
+ * `queued` once the request is posted, `deriving` when the worker starts the KDF,
+ * `done` when the key is back on the calling thread.
+ */
+export type KdfPhase = 'queued' | 'deriving' | 'done';
+
+export type KdfProgressEvent = {
+  phase: KdfPhase;
+  kdf: ResolvedKdf['kind'];
+};
+
+export type KdfRequest = {
+  id: number;
+  type: 'derive';
+  password: string;
+  salt: Uint8Array;
+  kdf: ResolvedKdf;
+};
+
+export type KdfResponse =
+  | { id: number; type: 'progress'; phase: 'deriving' }
+  | { id: number; type: 'result'; key: Uint8Array }
+  | { id: number; type: 'error'; error: KdfErrorPayload };
+
+/** A worker error as it crosses the thread boundary; `name` selects the class rebuilt on the calling thread. */
+export type KdfErrorPayload = {
+  name: string;
+  message: string;
+  reason?: KdfParamsErrorReason;
+};
+
+/** Minimal worker surface shared by browser `Worker` and Node `worker_threads`. */
+export interface KdfWorkerHandle {
+  postMessage(message: KdfRequest): void;
+  onMessage(listener: (message: KdfResponse) => void): void;
+  onError(listener: (error: unknown) => void): void;
+  terminate(): void;
+}
+
+/** Worker-side handler: derive the key for one request and report back through `reply`. */
+export async function handleKdfRequest(req: KdfRequest, reply: (res: KdfResponse) => void): Promise<void> {
+  reply({ id: req.id, type: 'progress', phase: 'deriving' });
+  try {
+    // The request comes from another thread, so check the cost bounds here too.
+    assertKdfBounds(req.kdf);
+    const key = await deriveKey(req.password, req.salt, req.kdf);
+    reply({ id: req.id, type: 'result', key });
+  } catch (err) {
+    reply({ id: req.id, type: 'error', error: toKdfErrorPayload(err) });
+  }
+}
+
+function toKdfErrorPayload(err: unknown): KdfErrorPayload {
+  if (err instanceof KdfParamsError) return { name: err.name, message: err.message, reason: err.reason };
+  if (err instanceof Error) return { name: err.name, message: err.message };
+  return { name: 'Error', message: String(err) };
+}
+
+/** Calling-thread side: rebuild the typed error the worker raised, so callers can branch on its class. */
+export function fromKdfErrorPayload(payload: KdfErrorPayload): Error {
+  switch (payload.name) {
+    case 'KdfParamsError':
+      return new KdfParamsError(payload.reason ?? 'malformed', payload.message);
+    case 'UnsupportedAlgorithmError':
+      return new UnsupportedAlgorithmError(payload.message);
+    case 'AuthenticationFailedError':
+      return new AuthenticationFailedError(payload.message);
+    case 'KeyUnavailableError':
+      return new KeyUnavailableError(payload.message);
+    case 'MalformedEnvelopeError':
+      return new MalformedEnvelopeError(payload.message);
+    case 'CryptoError':
+      return new CryptoError(payload.message);
+    default: {
+      const err = new Error(payload.message);
+      err.name = payload.name;
+      return err;
+    }
+  }
+}
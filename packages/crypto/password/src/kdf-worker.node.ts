@@ -0,0 +1,11 @@
+/// <reference types="node" />
+// Node worker_threads entry; spawned by `createNodeKdfWorker`.
+import { parentPort } from 'node:worker_threads';
+import { handleKdfRequest, type KdfRequest } from './kdf-protocol.js';
+
+if (!parentPort) throw new Error('kdf-worker.node must run inside a worker thread');
+const port = parentPort;
+
+port.on('message', (req: KdfRequest) => {
+  void handleKdfRequest(req, (res) => port.postMessage(res));
+});
@@ -0,0 +1,11 @@
+// Browser worker entry; spawned by `createBrowserKdfWorker`.
+import { handleKdfRequest, type KdfRequest, type KdfResponse } from './kdf-protocol.js';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<KdfRequest>) => void) | null;
+  postMessage(message: KdfResponse): void;
+};
+
+scope.onmessage = (event) => {
+  void handleKdfRequest(event.data, (res) => scope.postMessage(res));
+};
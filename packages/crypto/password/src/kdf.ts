@@ -0,0 +1,144 @@
+import type { KdfParams, KdfProfile } from '@crypto/interface';
+import { UnsupportedAlgorithmError } from '@crypto/interface';
+import sodium from 'libsodium-wrappers-sumo';
+
+export const ALG_ARGON = 'xchacha20poly1305/argon2id';
+export const ALG_PBKDF2 = 'xchacha20poly1305/pbkdf2';
+
+export const KDF_ARGON = 'argon2id13';
+export const KDF_PBKDF2 = 'pbkdf2-sha256';
+
+// Bounds applied to every parameter set we derive with, whether it came from a
+// caller-supplied profile or from an envelope header written by someone else.
+const MIN_ARGON_OPS = 2;
+const MAX_ARGON_OPS = 16;
+const MIN_ARGON_MEM = 19 * 1024 * 1024;
+const MAX_ARGON_MEM = 1024 * 1024 * 1024;
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+// Envelopes that omit their KDF parameters predate header-driven decrypt, which
+// always assumed the moderate profile (argon2id) or this iteration count (PBKDF2).
+const LEGACY_PBKDF2_ITERATIONS = 210_000;
+
+const PBKDF2_PROFILES = {
+  interactive: 100_000,
+  moderate: LEGACY_PBKDF2_ITERATIONS,
+  sensitive: 600_000,
+} as const;
+
+export type KdfParamsErrorReason = 'unknown-algorithm' | 'too-weak' | 'too-expensive' | 'malformed';
+
+/** Raised when KDF parameters are unknown, malformed, or outside the accepted cost range. */
+export class KdfParamsError extends UnsupportedAlgorithmError {
+  readonly reason: KdfParamsErrorReason;
+  constructor(reason: KdfParamsErrorReason, message: string) {
+    super(message);
+    this.name = 'KdfParamsError';
+    this.reason = reason;
+  }
+}
+
+export type ResolvedKdf =
+  | { kind: 'argon2id'; opsLimit: number; memLimit: number }
+  | { kind: 'pbkdf2'; iterations: number };
+
+export function hasArgon2id(): boolean {
+  return typeof (sodium as any).crypto_pwhash === 'function' &&
+    typeof (sodium as any).crypto_pwhash_ALG_ARGON2ID13 !== 'undefined';
+}
+
+/** Resolve the KDF used for new envelopes. Requires `sodium.ready`. */
+export function resolveProfile(profile: KdfProfile = 'moderate', preferWebCrypto = false): ResolvedKdf {
+  if (typeof profile === 'string' && !Object.hasOwn(PBKDF2_PROFILES, profile)) {
+    throw new KdfParamsError('unknown-algorithm', `Unknown KDF profile: ${profile}`);
+  }
+  const usePbkdf2 = preferWebCrypto || !hasArgon2id();
+  let kdf: ResolvedKdf;
+  if (typeof profile === 'string') {
+    if (usePbkdf2) {
+      kdf = { kind: 'pbkdf2', iterations: PBKDF2_PROFILES[profile] };
+    } else {
+      const limits = {
+        interactive: [sodium.crypto_pwhash_OPSLIMIT_INTERACTIVE, sodium.crypto_pwhash_MEMLIMIT_INTERACTIVE],
+        moderate: [sodium.crypto_pwhash_OPSLIMIT_MODERATE, sodium.crypto_pwhash_MEMLIMIT_MODERATE],
+        sensitive: [sodium.crypto_pwhash_OPSLIMIT_SENSITIVE, sodium.crypto_pwhash_MEMLIMIT_SENSITIVE],
+      }[profile];
+      kdf = { kind: 'argon2id', opsLimit: limits[0], memLimit: limits[1] };
+    }
+  } else if (usePbkdf2) {
+    kdf = { kind: 'pbkdf2', iterations: profile.pbkdf2?.iterations ?? PBKDF2_PROFILES.moderate };
+  } else {
+    kdf = {
+      kind: 'argon2id',
+      opsLimit: profile.argon2id?.opsLimit ?? sodium.crypto_pwhash_OPSLIMIT_MODERATE,
+      memLimit: profile.argon2id?.memLimit ?? sodium.crypto_pwhash_MEMLIMIT_MODERATE,
+    };
+  }
+  assertKdfBounds(kdf);
+  return kdf;
+}
+
+/** Read the KDF back from an envelope header. Requires `sodium.ready`. */
+export function kdfFromHeader(alg: string, params: KdfParams): ResolvedKdf {
+  let kdf: ResolvedKdf;
+  if (params.alg === KDF_PBKDF2 || (!params.alg && alg.includes('/pbkdf2'))) {
+    kdf = { kind: 'pbkdf2', iterations: params.iterations ?? LEGACY_PBKDF2_ITERATIONS };
+  } else if (params.alg === KDF_ARGON || (!params.alg && alg.includes('/argon2id'))) {
+    kdf = {
+      kind: 'argon2id',
+      opsLimit: params.opsLimit ?? sodium.crypto_pwhash_OPSLIMIT_MODERATE,
+      memLimit: params.memLimit ?? sodium.crypto_pwhash_MEMLIMIT_MODERATE,
+    };
+  } else {
+    throw new KdfParamsError('unknown-algorithm', `Unsupported KDF: ${params.alg ?? alg}`);
+  }
+  assertKdfBounds(kdf);
+  return kdf;
+}
+
+export function assertKdfBounds(kdf: ResolvedKdf): void {
+  const check = (name: string, value: number, min: number, max: number) => {
+    if (!Number.isSafeInteger(value)) {
+      throw new KdfParamsError('malformed', `${name} must be an integer, got ${value}`);
+    }
+    if (value < min) throw new KdfParamsError('too-weak', `${name} ${value} is below the minimum of ${min}`);
+    if (value > max) throw new KdfParamsError('too-expensive', `${name} ${value} exceeds the maximum of ${max}`);
+  };
+  if (kdf.kind === 'argon2id') {
+    check('opsLimit', kdf.opsLimit, MIN_ARGON_OPS, MAX_ARGON_OPS);
+    check('memLimit', kdf.memLimit, MIN_ARGON_MEM, MAX_ARGON_MEM);
+  } else {
+    check('iterations', kdf.iterations, MIN_PBKDF2_ITERATIONS, MAX_PBKDF2_ITERATIONS);
+  }
+}
+
+/** Envelope `alg` and header KDF fields for a resolved KDF. */
+export function kdfHeader(kdf: ResolvedKdf): { alg: string; params: Omit<KdfParams, 'saltB64'> } {
+  if (kdf.kind === 'argon2id') {
+    return { alg: ALG_ARGON, params: { opsLimit: kdf.opsLimit, memLimit: kdf.memLimit, alg: KDF_ARGON } };
+  }
+  return { alg: ALG_PBKDF2, params: { alg: KDF_PBKDF2, iterations: kdf.iterations } };
+}
+
+export async function deriveKey(password: string, salt: Uint8Array, kdf: ResolvedKdf): Promise<Uint8Array> {
+  await sodium.ready;
+  if (kdf.kind === 'pbkdf2') {
+    return deriveKeyPBKDF2(password, salt, kdf.iterations);
+  }
+  if (!hasArgon2id()) {
+    throw new UnsupportedAlgorithmError('Argon2id not available in current libsodium build');
+  }
+  return sodium.crypto_pwhash(32, password, salt, kdf.opsLimit, kdf.memLimit, sodium.crypto_pwhash_ALG_ARGON2ID13);
+}
+
+async function deriveKeyPBKDF2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const pw = new TextEncoder().encode(password);
+  const keyMaterial = await crypto.subtle.importKey('raw', pw, 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: (salt as unknown as BufferSource), iterations, hash: 'SHA-256' },
+    keyMaterial,
+    256
+  );
+  return new Uint8Array(bits);
+}
@@ -0,0 +1,19 @@
+/// <reference types="node" />
+import { Worker } from 'node:worker_threads';
+import type { KdfResponse, KdfWorkerHandle } from './kdf-protocol.js';
+
+/**
+ * Spawn the KDF worker on a Node worker thread, for use as `createWorker` in
+ * `createPasswordWorkerCrypto`. Kept out of the main entry so browser bundles never see `node:*`.
+ */
+export function createNodeKdfWorker(
+  entry: URL = new URL('./kdf-worker.node.js', import.meta.url)
+): KdfWorkerHandle {
+  const worker = new Worker(entry);
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    onMessage: (listener) => worker.on('message', (message: KdfResponse) => listener(message)),
+    onError: (listener) => worker.on('error', listener),
+    terminate: () => void worker.terminate()
+  };
+}
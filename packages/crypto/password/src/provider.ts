@@ -0,0 +1,204 @@
+import type { CipherEnvelope, CryptoProvider, KdfProfile, PasswordInit } from '@crypto/interface';
+import {
+  AuthenticationFailedError,
+  KeyUnavailableError,
+  MalformedEnvelopeError,
+  UnsupportedAlgorithmError,
+  base64ToBytes,
+  bytesToBase64,
+  envelopeBytes,
+} from '@crypto/interface';
+import sodium from 'libsodium-wrappers-sumo';
+import { deriveKey, kdfFromHeader, kdfHeader, resolveProfile, type ResolvedKdf } from './kdf.js';
+
+export type PasswordCrypto = CryptoProvider & {
+  readonly kind: 'password';
+  /** Wipe cached key material; the provider re-derives on next use. */
+  lock(): void;
+  /** Wipe cached keys and forget the password; the provider is unusable afterwards. */
+  zeroize(): void;
+};
+
+const DEFAULT_KEY_CACHE_SIZE = 4;
+
+type KeyWaiter = { resolve(key: Uint8Array): void; reject(err: unknown): void };
+
+export class PasswordProvider implements PasswordCrypto {
+  readonly kind = 'password' as const;
+  readonly keyId: undefined;
+
+  private _password: string | null;
+  private _saltB64?: string;
+  private _preferWebCrypto: boolean;
+  private _kdfProfile?: KdfProfile;
+  private _reuseSalt: boolean;
+  private _keyCacheSize: number;
+  // Insertion-ordered, so the first entry is the least recently used.
+  private _keyCache = new Map<string, Uint8Array>();
+  // Callers waiting on a derivation, each handed its own copy of the key when it lands.
+  private _inflight = new Map<string, KeyWaiter[]>();
+  // Bumped by lock(); derivations started before a lock are not cached.
+  private _generation = 0;
+
+  constructor(init: PasswordInit) {
+    this._password = init.password;
+    this._saltB64 = init.saltB64;
+    this._preferWebCrypto = !!init.preferWebCrypto;
+    this._kdfProfile = init.kdfProfile;
+    this._reuseSalt = !!init.reuseSalt;
+    this._keyCacheSize = Math.max(0, init.keyCacheSize ?? DEFAULT_KEY_CACHE_SIZE);
+  }
+
+  /** Salt used for new envelopes, if fixed (via `saltB64` or after the first encrypt with `reuseSalt`). */
+  get saltB64(): string | undefined {
+    return this._saltB64;
+  }
+
+  lock(): void {
+    this._generation++;
+    for (const key of this._keyCache.values()) key.fill(0);
+    this._keyCache.clear();
+    this._inflight.clear();
+  }
+
+  zeroize(): void {
+    this.lock();
+    this._password = null;
+  }
+
+  async encrypt(plain: Uint8Array, aad?: string): Promise<CipherEnvelope> {
+    await sodium.ready;
+    const salt = this._saltB64 ? base64ToBytes(this._saltB64) : sodium.randombytes_buf(16);
+    if (this._reuseSalt && !this._saltB64) {
+      this._saltB64 = bytesToBase64(salt);
+    }
+
+    // Falls back to WebCrypto PBKDF2 if argon2id isn't available in current build
+    const kdf = resolveProfile(this._kdfProfile, this._preferWebCrypto);
+    const key = await this._deriveCached(salt, kdf);
+    const { alg, params } = kdfHeader(kdf);
+
+    const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+
+    let ct: Uint8Array;
+    try {
+      ct = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
+        plain,
+        aad ? new TextEncoder().encode(aad) : null,
+        null,
+        nonce,
+        key
+      );
+    } finally {
+      key.fill(0);
+    }
+
+    const env: CipherEnvelope = {
+      header: {
+        v: 1,
+        alg,
+        aad,
+        kdf: {
+          saltB64: bytesToBase64(salt),
+          ...params
+        }
+      },
+      nB64: bytesToBase64(nonce),
+      cB64: bytesToBase64(ct)
+    };
+    return env;
+  }
+
+  async decrypt(env: CipherEnvelope, aad?: string): Promise<Uint8Array> {
+    await sodium.ready;
+    if (!env.header.alg.startsWith('xchacha20poly1305')) {
+      throw new UnsupportedAlgorithmError(`Unsupported alg: ${env.header.alg}`);
+    }
+    // Prefer envelope aad if none provided
+    const aadStr = aad ?? env.header.aad;
+    const { nonce, ct } = envelopeBytes(env, sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    const salt = decodeSalt(env.header.kdf?.saltB64);
+    // Every KDF parameter comes from the header so envelopes written with other cost settings stay readable.
+    const kdf = kdfFromHeader(env.header.alg, env.header.kdf);
+    const key = await this._deriveCached(salt, kdf);
+
+    try {
+      return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+        null,
+        ct,
+        aadStr ? new TextEncoder().encode(aadStr) : null,
+        nonce,
+        key
+      );
+    } catch (cause) {
+      throw new AuthenticationFailedError(undefined, { cause });
+    } finally {
+      key.fill(0);
+    }
+  }
+
+  /** Run the KDF; subclasses may move this off the calling thread. */
+  protected derive(password: string, salt: Uint8Array, kdf: ResolvedKdf): Promise<Uint8Array> {
+    return deriveKey(password, salt, kdf);
+  }
+
+  /**
+   * Resolve the key for `salt` and `kdf`, deriving it at most once while cached or in flight.
+   * The caller gets its own copy and must wipe it, so eviction and `lock()` never touch a key in use.
+   */
+  private async _deriveCached(salt: Uint8Array, kdf: ResolvedKdf): Promise<Uint8Array> {
+    const password = this._password;
+    if (password === null) throw new KeyUnavailableError('PasswordProvider has been zeroized');
+    if (this._keyCacheSize === 0) return this.derive(password, salt, kdf);
+
+    const id = cacheId(salt, kdf);
+    const cached = this._keyCache.get(id);
+    if (cached) {
+      this._keyCache.delete(id);
+      this._keyCache.set(id, cached);
+      return cached.slice();
+    }
+    return new Promise<Uint8Array>((resolve, reject) => {
+      const pending = this._inflight.get(id);
+      if (pending) {
+        pending.push({ resolve, reject });
+        return;
+      }
+      const waiters: KeyWaiter[] = [{ resolve, reject }];
+      this._inflight.set(id, waiters);
+      const generation = this._generation;
+      this.derive(password, salt, kdf).then((key) => {
+        if (this._inflight.get(id) === waiters) this._inflight.delete(id);
+        for (const waiter of waiters) waiter.resolve(key.slice());
+        if (generation !== this._generation) {
+          // Superseded by lock(): every caller has its copy, so nothing else holds this one.
+          key.fill(0);
+          return;
+        }
+        this._keyCache.set(id, key);
+        while (this._keyCache.size > this._keyCacheSize) {
+          const [oldest, evicted] = this._keyCache.entries().next().value!;
+          evicted.fill(0);
+          this._keyCache.delete(oldest);
+        }
+      }, (err) => {
+        if (this._inflight.get(id) === waiters) this._inflight.delete(id);
+        for (const waiter of waiters) waiter.reject(err);
+      });
+    });
+  }
+}
+
+function decodeSalt(saltB64: string | undefined): Uint8Array {
+  if (!saltB64) throw new MalformedEnvelopeError('Envelope is missing its KDF salt');
+  try {
+    return base64ToBytes(saltB64);
+  } catch (cause) {
+    throw new MalformedEnvelopeError('Envelope KDF salt is not valid base64', { cause });
+  }
+}
+
+function cacheId(salt: Uint8Array, kdf: ResolvedKdf): string {
+  const params = kdf.kind === 'argon2id' ? `${kdf.opsLimit}:${kdf.memLimit}` : `${kdf.iterations}`;
+  return `${kdf.kind}|${params}|${bytesToBase64(salt)}`;
+}
@@ -0,0 +1,110 @@
+import type { PasswordInit } from '@crypto/interface';
+import { KeyUnavailableError } from '@crypto/interface';
+import { PasswordProvider } from './provider.js';
+import type { ResolvedKdf } from './kdf.js';
+import { fromKdfErrorPayload, type KdfProgressEvent, type KdfResponse, type KdfWorkerHandle } from './kdf-protocol.js';
+
+export type PasswordWorkerInit = PasswordInit & {
+  /** Aborting rejects in-flight derivations with an `AbortError` and terminates the worker. */
+  signal?: AbortSignal;
+  onProgress?: (event: KdfProgressEvent) => void;
+  /** Defaults to `createBrowserKdfWorker`; pass `createNodeKdfWorker` from `@crypto/password/node` outside the browser. */
+  createWorker?: () => KdfWorkerHandle;
+};
+
+/** Spawn the KDF worker as a module Web Worker. */
+export function createBrowserKdfWorker(): KdfWorkerHandle {
+  const worker = new Worker(new URL('./kdf-worker.js', import.meta.url), { type: 'module' });
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    onMessage: (listener) => worker.addEventListener('message', (event: MessageEvent<KdfResponse>) => listener(event.data)),
+    onError: (listener) => worker.addEventListener('error', listener),
+    terminate: () => worker.terminate()
+  };
+}
+
+type Pending = {
+  resolve: (key: Uint8Array) => void;
+  reject: (err: unknown) => void;
+  kdf: ResolvedKdf['kind'];
+};
+
+/**
+ * Password provider that runs the KDF on a worker so the calling thread stays responsive.
+ * Envelopes are identical to `PasswordProvider`; only where the key is derived changes.
+ * The worker is spawned lazily and reused until aborted or zeroized.
+ */
+export class WorkerPasswordProvider extends PasswordProvider {
+  private _createWorker: () => KdfWorkerHandle;
+  private _signal?: AbortSignal;
+  private _onProgress?: (event: KdfProgressEvent) => void;
+  private _worker: KdfWorkerHandle | null = null;
+  private _pending = new Map<number, Pending>();
+  private _nextId = 1;
+
+  constructor(init: PasswordWorkerInit) {
+    super(init);
+    this._createWorker = init.createWorker ?? createBrowserKdfWorker;
+    this._signal = init.signal;
+    this._onProgress = init.onProgress;
+    this._signal?.addEventListener('abort', () => this._fail(abortError()), { once: true });
+  }
+
+  override zeroize(): void {
+    super.zeroize();
+    this._fail(new KeyUnavailableError('PasswordProvider has been zeroized'));
+  }
+
+  protected override derive(password: string, salt: Uint8Array, kdf: ResolvedKdf): Promise<Uint8Array> {
+    if (this._signal?.aborted) return Promise.reject(abortError());
+    const worker = this._ensureWorker();
+    const id = this._nextId++;
+    return new Promise<Uint8Array>((resolve, reject) => {
+      this._pending.set(id, { resolve, reject, kdf: kdf.kind });
+      this._onProgress?.({ phase: 'queued', kdf: kdf.kind });
+      worker.postMessage({ id, type: 'derive', password, salt, kdf });
+    });
+  }
+
+  private _ensureWorker(): KdfWorkerHandle {
+    if (this._worker) return this._worker;
+    const worker = this._createWorker();
+    worker.onMessage((message) => this._handleMessage(message));
+    worker.onError((err) => this._fail(err));
+    this._worker = worker;
+    return worker;
+  }
+
+  private _handleMessage(message: KdfResponse): void {
+    const pending = this._pending.get(message.id);
+    if (!pending) return;
+    if (message.type === 'progress') {
+      this._onProgress?.({ phase: message.phase, kdf: pending.kdf });
+      return;
+    }
+    this._pending.delete(message.id);
+    if (message.type === 'result') {
+      this._onProgress?.({ phase: 'done', kdf: pending.kdf });
+      pending.resolve(message.key);
+    } else {
+      pending.reject(fromKdfErrorPayload(message.error));
+    }
+  }
+
+  /** Reject everything in flight and drop the worker; the next derivation spawns a fresh one. */
+  private _fail(err: unknown): void {
+    const pending = [...this._pending.values()];
+    this._pending.clear();
+    this._worker?.terminate();
+    this._worker = null;
+    for (const p of pending) p.reject(err);
+  }
+}
+
+function abortError(): Error {
+  return new DOMException('Key derivation aborted', 'AbortError');
+}
+
+export function createPasswordWorkerCrypto(init: PasswordWorkerInit): WorkerPasswordProvider {
+  return new WorkerPasswordProvider(init);
+}
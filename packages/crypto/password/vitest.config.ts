@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+import commonConfig from '../../../vitest.config.ts';
+
+export default defineConfig({
+  ...commonConfig,
+  test: {
+    ...commonConfig.test,
+    globalSetup: ['./vitest.global-setup.ts']
+  }
+});
@@ -0,0 +1,36 @@
+import { execFileSync } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import type { TestProject } from 'vitest/node';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    kdfWorkerEntry: string;
+  }
+}
+
+// Worker threads cannot load TypeScript, so compile the sources once per run into a scratch
+// directory under node_modules (dependencies still resolve from there) and leave dist/ alone.
+export default function setup(project: TestProject) {
+  const packageDir = fileURLToPath(new URL('.', import.meta.url));
+  const outDir = fileURLToPath(new URL('./node_modules/.cache/kdf-worker', import.meta.url));
+  const tsc = createRequire(import.meta.url).resolve('typescript/bin/tsc');
+  execFileSync(
+    process.execPath,
+    [
+      tsc,
+      '-p',
+      packageDir,
+      '--outDir',
+      outDir,
+      '--composite',
+      'false',
+      '--incremental',
+      'false',
+      '--declaration',
+      'false'
+    ],
+    { stdio: 'inherit' }
+  );
+  project.provide('kdfWorkerEntry', pathToFileURL(`${outDir}/kdf-worker.node.js`).href);
+}
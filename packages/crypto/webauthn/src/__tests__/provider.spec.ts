@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { AuthenticationFailedError, UnsupportedAlgorithmError } from '@crypto/interface';
+import { MemoryCredentialStore, WebAuthnProvider, type WebAuthnInit } from '../index.js';
+import { SoftwareAuthenticator } from '../testing.js';
+
+const msg = new TextEncoder().encode('vault dek');
+
+function setup(authOpts?: ConstructorParameters<typeof SoftwareAuthenticator>[0], init?: Partial<WebAuthnInit>) {
+  const authenticator = new SoftwareAuthenticator(authOpts);
+  const store = new MemoryCredentialStore();
+  const provider = new WebAuthnProvider({ keyId: 'vault', store, credentials: authenticator, ...init });
+  return { authenticator, store, provider };
+}
+
+describe('WebAuthnProvider with a software authenticator', () => {
+  it('registers a credential with label, timestamp and transports', async () => {
+    const { authenticator, provider } = setup({ transports: ['usb'] });
+    const cred = await provider.register('alice', 'Security key');
+
+    expect(cred.id).toBe(authenticator.credentialIds[0]);
+    expect(cred.label).toBe('Security key');
+    expect(cred.transports).toEqual(['usb']);
+    expect(Date.parse(cred.createdAt)).not.toBeNaN();
+    expect(await provider.credentials()).toEqual([cred]);
+  });
+
+  it('refuses to register twice on the same authenticator', async () => {
+    const { provider } = setup();
+    await provider.register();
+    await expect(provider.register()).rejects.toMatchObject({ name: 'InvalidStateError' });
+  });
+
+  it('probes PRF support', async () => {
+    const { provider } = setup();
+    expect(await provider.probe()).toBe(false); // nothing registered yet
+    await provider.register();
+    expect(await provider.probe()).toBe(true);
+  });
+
+  it('round-trips and records the credential that keyed the envelope', async () => {
+    const { authenticator, provider } = setup();
+    const cred = await provider.register();
+    const env = await provider.encrypt(msg, 'vault-dek-v1');
+
+    expect(env.header.alg).toBe('xchacha20poly1305/webauthn-prf');
+    expect(env.header.kid).toBe(cred.id);
+    expect(env.header.kdf.saltB64).toBe('');
+    expect(new TextDecoder().decode(await provider.decrypt(env))).toBe('vault dek');
+    expect(authenticator.prompts).toBe(3);
+  });
+
+  it('derives the same keys from the same seed', async () => {
+    const first = setup({ seed: 'fixed' });
+    const second = setup({ seed: 'fixed' });
+    await first.provider.register();
+    await second.provider.register();
+    const env = await first.provider.encrypt(msg, 'ctx');
+    expect(new TextDecoder().decode(await second.provider.decrypt(env))).toBe('vault dek');
+  });
+
+  it('cannot decrypt with a different credential', async () => {
+    const store = new MemoryCredentialStore();
+    const laptop = new SoftwareAuthenticator({ seed: 'laptop' });
+    const hwKey = new SoftwareAuthenticator({ seed: 'hardware-key' });
+    const viaLaptop = new WebAuthnProvider({ keyId: 'vault', store, credentials: laptop });
+    const viaKey = new WebAuthnProvider({ keyId: 'vault', store, credentials: hwKey });
+    await viaLaptop.register('alice', 'Laptop');
+    await viaKey.register('alice', 'Hardware key');
+    expect(await viaKey.credentials()).toHaveLength(2);
+
+    const env = await viaLaptop.encrypt(msg, 'vault-dek-v1');
+    // The envelope pins the laptop credential, which the hardware key does not hold.
+    await expect(viaKey.decrypt(env)).rejects.toMatchObject({ name: 'NotAllowedError' });
+
+    // Forging the credential id does not help: the PRF output differs, so the AEAD check fails.
+    const forged = { ...env, header: { ...env.header, kid: hwKey.credentialIds[0] } };
+    await expect(viaKey.decrypt(forged)).rejects.toBeInstanceOf(AuthenticationFailedError);
+  });
+
+  it('errors when the authenticator has no PRF support', async () => {
+    const { provider } = setup({ prf: false });
+    await provider.register();
+    expect(await provider.probe()).toBe(false);
+    await expect(provider.encrypt(msg)).rejects.toThrow(/PRF\/hmac-secret not available/);
+    await expect(provider.encrypt(msg)).rejects.toBeInstanceOf(UnsupportedAlgorithmError);
+  });
+
+  it('prompts once per session and again after lock', async () => {
+    const { authenticator, provider } = setup(undefined, { session: { idleTimeoutMs: 0 } });
+    await provider.register();
+    const before = authenticator.prompts;
+
+    const a = await provider.encrypt(msg, 'vault-dek-v1');
+    const b = await provider.encrypt(msg, 'identity-key-v1');
+    await provider.decrypt(a);
+    await provider.decrypt(b);
+    expect(a.header.alg).toBe('xchacha20poly1305/webauthn-prf-hkdf');
+    expect(authenticator.prompts - before).toBe(1);
+    expect(provider.unlocked).toBe(true);
+
+    provider.lock();
+    expect(provider.unlocked).toBe(false);
+    expect(new TextDecoder().decode(await provider.decrypt(a))).toBe('vault dek');
+    expect(authenticator.prompts - before).toBe(2);
+  });
+});
@@ -0,0 +1,65 @@
+// Registered passkeys for a provider `keyId`, persisted through a pluggable store.
+
+export interface StoredCredential {
+  id: string; // base64 raw credential id
+  label: string;
+  createdAt: string; // ISO timestamp; empty for credentials migrated from the single-id format
+  transports?: AuthenticatorTransport[];
+}
+
+export interface CredentialStore {
+  list(keyId: string): Promise<StoredCredential[]>;
+  add(keyId: string, credential: StoredCredential): Promise<void>;
+  remove(keyId: string, credentialId: string): Promise<void>;
+}
+
+/** Keeps credentials in memory; useful for tests and short-lived sessions. */
+export class MemoryCredentialStore implements CredentialStore {
+  private byKey = new Map<string, StoredCredential[]>();
+
+  async list(keyId: string): Promise<StoredCredential[]> {
+    return [...(this.byKey.get(keyId) ?? [])];
+  }
+
+  async add(keyId: string, credential: StoredCredential): Promise<void> {
+    const existing = (this.byKey.get(keyId) ?? []).filter((c) => c.id !== credential.id);
+    this.byKey.set(keyId, [...existing, credential]);
+  }
+
+  async remove(keyId: string, credentialId: string): Promise<void> {
+    this.byKey.set(keyId, (this.byKey.get(keyId) ?? []).filter((c) => c.id !== credentialId));
+  }
+}
+
+/**
+ * Stores the credential list as JSON under `webauthn.creds.<keyId>`. A single id left under
+ * the older `webauthn.cred.<keyId>` key is folded into the list on first read.
+ */
+export class LocalStorageCredentialStore implements CredentialStore {
+  constructor(private storage: Storage = localStorage) {}
+
+  async list(keyId: string): Promise<StoredCredential[]> {
+    const raw = this.storage.getItem(listKey(keyId));
+    const list: StoredCredential[] = raw ? JSON.parse(raw) : [];
+    const legacy = this.storage.getItem(legacyKey(keyId));
+    if (legacy) {
+      if (!list.some((c) => c.id === legacy)) list.push({ id: legacy, label: 'Passkey', createdAt: '' });
+      this.storage.setItem(listKey(keyId), JSON.stringify(list));
+      this.storage.removeItem(legacyKey(keyId));
+    }
+    return list;
+  }
+
+  async add(keyId: string, credential: StoredCredential): Promise<void> {
+    const list = (await this.list(keyId)).filter((c) => c.id !== credential.id);
+    this.storage.setItem(listKey(keyId), JSON.stringify([...list, credential]));
+  }
+
+  async remove(keyId: string, credentialId: string): Promise<void> {
+    const list = (await this.list(keyId)).filter((c) => c.id !== credentialId);
+    this.storage.setItem(listKey(keyId), JSON.stringify(list));
+  }
+}
+
+const listKey = (keyId: string) => `webauthn.creds.${keyId}`;
+const legacyKey = (keyId: string) => `webauthn.cred.${keyId}`;
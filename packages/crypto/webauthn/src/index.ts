@@ -1,17 +1,42 @@
 import type { CipherEnvelope, CryptoProvider } from '@crypto/interface';
-import { bytesToBase64, base64ToBytes } from '@crypto/interface';
+import {
+  AuthenticationFailedError,
+  KeyUnavailableError,
+  UnsupportedAlgorithmError,
+  base64ToBytes,
+  bytesToBase64,
+  envelopeBytes,
+} from '@crypto/interface';
 import sodium from 'libsodium-wrappers';
+import { LocalStorageCredentialStore, type CredentialStore, type StoredCredential } from './credentials.js';
+
+export * from './credentials.js';
 
 // Experimental WebAuthn-based key derivation using PRF/hmac-secret extensions.
-// This derives a stable per-credential secret to use as an AEAD key.
+// This derives a stable per-credential secret to use as an AEAD key. Several passkeys can be
+// registered per keyId; envelopes record in `kid` which credential's PRF output keyed them.
+
+export type WebAuthnCrypto = CryptoProvider & {
+  readonly kind: 'webauthn';
+  /** Wipe the cached session secret; the next operation prompts again. */
+  lock(): void;
+};
 
-export type WebAuthnCrypto = CryptoProvider & { readonly kind: 'webauthn' };
+export interface WebAuthnSessionOptions {
+  idleTimeoutMs?: number; // wipe the session secret after this long without use (default 5 minutes, 0 disables)
+}
 
 export interface WebAuthnInit {
-  keyId: string; // used to store credential id locally
+  keyId: string; // namespaces the registered credentials in the store
   rpId?: string; // optional relying party id
+  store?: CredentialStore; // where registered credentials live (default: localStorage)
+  session?: boolean | WebAuthnSessionOptions; // derive the PRF secret once and expand per-context keys via HKDF
+  credentials?: WebAuthnCredentials; // defaults to navigator.credentials; inject a SoftwareAuthenticator from @crypto/webauthn/testing in tests
 }
 
+/** The part of `CredentialsContainer` the provider calls. */
+export type WebAuthnCredentials = Pick<CredentialsContainer, 'create' | 'get'>;
+
 type PublicKeyCredentialWithPRF = PublicKeyCredential & {
   getClientExtensionResults(): AuthenticationExtensionsClientOutputs & {
     prf?: { results?: { first?: ArrayBuffer; second?: ArrayBuffer } };
@@ -20,28 +45,100 @@ type PublicKeyCredentialWithPRF = PublicKeyCredential & {
 };
 
 const ALG = 'xchacha20poly1305/webauthn-prf';
+// Session envelopes: key = HKDF-SHA256(PRF(SESSION_CONTEXT), info = 'psync:' + context).
+const ALG_HKDF = 'xchacha20poly1305/webauthn-prf-hkdf';
+const SESSION_CONTEXT = 'session';
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60_000;
 
 export class WebAuthnProvider implements WebAuthnCrypto {
   readonly kind = 'webauthn' as const;
   readonly keyId: string;
   private rpId?: string;
+  private store: CredentialStore;
+  private injected?: WebAuthnCredentials;
+  private sessionMode: boolean;
+  private idleTimeoutMs: number;
+  // Credential new envelopes are keyed with: pinned via selectCredential() or picked at unlock.
+  private activeCredentialId: string | null = null;
+  // PRF outputs by `${credentialId}|${context}`; only populated in session mode.
+  private secrets = new Map<string, Uint8Array>();
+  private inflight = new Map<string, Promise<DerivedSecret>>();
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped by lock(); assertions that finish after a lock are not cached.
+  private generation = 0;
 
   constructor(opts: WebAuthnInit) {
     this.keyId = opts.keyId;
     this.rpId = opts.rpId;
+    this.store = opts.store ?? new LocalStorageCredentialStore();
+    this.injected = opts.credentials;
+    this.sessionMode = !!opts.session;
+    this.idleTimeoutMs = (typeof opts.session === 'object' ? opts.session.idleTimeoutMs : undefined) ?? DEFAULT_IDLE_TIMEOUT_MS;
+  }
+
+  /** True while a session secret is cached and operations will not prompt. */
+  get unlocked(): boolean {
+    return !!this.activeCredentialId && this.secrets.has(cacheKey(this.activeCredentialId, SESSION_CONTEXT));
+  }
+
+  /** Credential new envelopes are keyed with, once known. */
+  get credentialId(): string | null {
+    return this.activeCredentialId;
+  }
+
+  /**
+   * Prompt once up front so later operations in the session run without a prompt.
+   * Any registered passkey may answer unless `credentialId` is given; returns the one used.
+   */
+  async unlock(credentialId?: string): Promise<string> {
+    const { credentialId: used } = await this.sessionSecret(credentialId);
+    this.activeCredentialId = used;
+    return used;
+  }
+
+  /** Key new envelopes with a specific passkey (e.g. to wrap a vault key once per credential). */
+  selectCredential(credentialId: string | null): void {
+    this.activeCredentialId = credentialId;
+  }
+
+  lock(): void {
+    this.generation++;
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    for (const secret of this.secrets.values()) secret.fill(0);
+    this.secrets.clear();
+    this.inflight.clear();
   }
 
   static isSupported(): boolean {
     return typeof window !== 'undefined' && !!window.PublicKeyCredential && !!navigator.credentials;
   }
 
-  get storedCredentialId(): ArrayBuffer | null {
-    const b64 = localStorage.getItem(this._credKey());
-    return b64 ? (base64ToBytes(b64).buffer as ArrayBuffer) : null;
+  private container(): WebAuthnCredentials {
+    if (this.injected) return this.injected;
+    if (!WebAuthnProvider.isSupported()) throw new KeyUnavailableError('WebAuthn not supported');
+    return navigator.credentials;
+  }
+
+  credentials(): Promise<StoredCredential[]> {
+    return this.store.list(this.keyId);
+  }
+
+  async removeCredential(credentialId: string): Promise<void> {
+    await this.store.remove(this.keyId, credentialId);
+    for (const [key, secret] of this.secrets) {
+      if (key.startsWith(`${credentialId}|`)) {
+        secret.fill(0);
+        this.secrets.delete(key);
+      }
+    }
+    if (this.activeCredentialId === credentialId) this.activeCredentialId = null;
   }
 
-  async register(userLabel: string = 'User'): Promise<void> {
-    if (!WebAuthnProvider.isSupported()) throw new Error('WebAuthn not supported');
+  /** Register an additional passkey for this keyId; existing ones stay usable. */
+  async register(userLabel: string = 'User', credentialLabel: string = 'Passkey'): Promise<StoredCredential> {
+    const container = this.container();
+    const existing = await this.credentials();
     const userId = crypto.getRandomValues(new Uint8Array(16));
     const publicKey: PublicKeyCredentialCreationOptions = {
         challenge: crypto.getRandomValues(new Uint8Array(32)),
@@ -55,6 +152,8 @@ export class WebAuthnProvider implements WebAuthnCrypto {
         authenticatorSelection: { userVerification: 'preferred', residentKey: 'preferred' },
         timeout: 60_000,
         attestation: 'none', // optional but commonly used
+        // Don't register a second credential on an authenticator that already has one
+        excludeCredentials: existing.map(descriptor),
         extensions: {
           // For PRF, registration typically just enables the extension;
           // you evaluate it during get()/assertion.
@@ -62,21 +161,79 @@ export class WebAuthnProvider implements WebAuthnCrypto {
           prf: {  } 
         },
       }
-    const cred = (await navigator.credentials.create({ publicKey })) as PublicKeyCredential | null;
+    const cred = (await container.create({ publicKey })) as PublicKeyCredential | null;
     if (!cred) throw new Error('Credential creation failed');
-    const rawId = new Uint8Array(cred.rawId);
-    localStorage.setItem(this._credKey(), bytesToBase64(rawId));
+    const response = cred.response as AuthenticatorAttestationResponse;
+    const stored: StoredCredential = {
+      id: bytesToBase64(new Uint8Array(cred.rawId)),
+      label: credentialLabel,
+      createdAt: new Date().toISOString(),
+      transports: response.getTransports?.() as AuthenticatorTransport[] | undefined,
+    };
+    await this.store.add(this.keyId, stored);
+    return stored;
   }
 
-  private _credKey() {
-    return `webauthn.cred.${this.keyId}`;
+  /** PRF output for `context`, reused within the session when session mode is on. */
+  private async secretFor(context: string, credentialId?: string): Promise<DerivedSecret> {
+    const pinned = credentialId ?? this.activeCredentialId ?? undefined;
+    if (!this.sessionMode) return this.deriveSecret(context, pinned);
+    if (pinned) {
+      const cached = this.secrets.get(cacheKey(pinned, context));
+      if (cached) {
+        this.touch();
+        return { secret: cached, credentialId: pinned };
+      }
+    }
+    const inflightKey = cacheKey(pinned ?? '*', context);
+    const pending = this.inflight.get(inflightKey);
+    if (pending) return pending;
+
+    const generation = this.generation;
+    const derivation = this.deriveSecret(context, pinned).then((derived) => {
+      if (generation === this.generation) {
+        this.inflight.delete(inflightKey);
+        this.secrets.set(cacheKey(derived.credentialId, context), derived.secret);
+        this.activeCredentialId ??= derived.credentialId;
+        this.touch();
+      }
+      return derived;
+    }, (err) => {
+      if (generation === this.generation) this.inflight.delete(inflightKey);
+      throw err;
+    });
+    this.inflight.set(inflightKey, derivation);
+    return derivation;
+  }
+
+  private sessionSecret(credentialId?: string): Promise<DerivedSecret> {
+    return this.secretFor(SESSION_CONTEXT, credentialId);
   }
 
-  private async deriveSecret(context: string): Promise<Uint8Array> {
-    if (!WebAuthnProvider.isSupported()) throw new Error('WebAuthn not supported');
-    const credId = this.storedCredentialId;
-    if (!credId) throw new Error('No registered credential');
-    const allow: PublicKeyCredentialDescriptor[] = [{ type: 'public-key', id: credId }];
+  private touch() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = this.idleTimeoutMs > 0 ? setTimeout(() => this.lock(), this.idleTimeoutMs) : null;
+  }
+
+  /** Per-context key for the envelope algorithm; session envelopes expand from one PRF evaluation. */
+  private async keyFor(alg: string, context: string, credentialId?: string): Promise<DerivedSecret> {
+    if (alg === ALG_HKDF) {
+      const session = await this.sessionSecret(credentialId);
+      return { secret: await hkdf(session.secret, 'psync:' + context), credentialId: session.credentialId };
+    }
+    return this.secretFor(context, credentialId);
+  }
+
+  /** One PRF evaluation. Offers every registered passkey unless `credentialId` pins one. */
+  private async deriveSecret(context: string, credentialId?: string): Promise<DerivedSecret> {
+    const container = this.container();
+    const registered = await this.credentials();
+    // A pinned id may come from an envelope written on another device, so it need not be in the local store.
+    const allowed = credentialId
+      ? [registered.find((c) => c.id === credentialId) ?? { id: credentialId }]
+      : registered;
+    if (allowed.length === 0) throw new KeyUnavailableError('No registered credential');
+    const allow: PublicKeyCredentialDescriptor[] = allowed.map(descriptor);
     const challenge = crypto.getRandomValues(new Uint8Array(32));
     const salt = new TextEncoder().encode('psync:' + context);
     const publicKey: PublicKeyCredentialRequestOptions = {
@@ -87,20 +244,21 @@ export class WebAuthnProvider implements WebAuthnCrypto {
       timeout: 60_000,
       extensions: { prf: { eval: { first: salt.buffer } }  },
     };
-    const assertion = (await navigator.credentials.get({ publicKey })) as PublicKeyCredentialWithPRF | null;
-    if (!assertion) throw new Error('Assertion failed');
+    const assertion = (await container.get({ publicKey })) as PublicKeyCredentialWithPRF | null;
+    if (!assertion) throw new KeyUnavailableError('Assertion failed');
     const ext = assertion.getClientExtensionResults();
     const prf = ext.prf?.results?.first as ArrayBuffer | undefined;
     if (prf) {
-      return new Uint8Array(prf).slice(0, 32);
+      return { secret: new Uint8Array(prf).slice(0, 32), credentialId: bytesToBase64(new Uint8Array(assertion.rawId)) };
     }
 
-    throw new Error('WebAuthn PRF/hmac-secret not available');
+    throw new UnsupportedAlgorithmError('WebAuthn PRF/hmac-secret not available');
   }
 
   async encrypt(plain: Uint8Array, aad?: string): Promise<CipherEnvelope> {
     await sodium.ready;
-    const key = await this.deriveSecret(aad ?? 'default');
+    const alg = this.sessionMode ? ALG_HKDF : ALG;
+    const { secret: key, credentialId } = await this.keyFor(alg, aad ?? 'default');
     const nonce = sodium.randombytes_buf(sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
     const ct = sodium.crypto_aead_xchacha20poly1305_ietf_encrypt(
       plain,
@@ -109,8 +267,10 @@ export class WebAuthnProvider implements WebAuthnCrypto {
       nonce,
       key
     );
+    if (alg === ALG_HKDF) key.fill(0);
     return {
-      header: { v: 1, alg: ALG, aad, kdf: { saltB64: '' } },
+      // The key id names the credential so decrypt can ask for the same passkey.
+      header: { v: 1, alg, aad, kid: credentialId, kdf: { saltB64: '' } },
       nB64: bytesToBase64(nonce),
       cB64: bytesToBase64(ct),
     };
@@ -118,30 +278,41 @@ export class WebAuthnProvider implements WebAuthnCrypto {
 
   async decrypt(env: CipherEnvelope, aad?: string): Promise<Uint8Array> {
     await sodium.ready;
-    if (!env.header.alg.startsWith('xchacha20poly1305/webauthn')) {
-      // continue if different label but same primitive
+    // Other labels over the same primitive are accepted.
+    if (!env.header.alg.startsWith('xchacha20poly1305')) {
+      throw new UnsupportedAlgorithmError(`Unsupported alg: ${env.header.alg}`);
     }
-    const key = await this.deriveSecret(aad ?? env.header.aad ?? 'default');
-    const nonce = base64ToBytes(env.nB64);
-    const ct = base64ToBytes(env.cB64);
-    const plain = sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
-      null,
-      ct,
-      (aad ?? env.header.aad) ? new TextEncoder().encode(aad ?? env.header.aad!) : null,
-      nonce,
-      key
+    // Checked before keyFor so a broken envelope never triggers a passkey prompt.
+    const { nonce, ct } = envelopeBytes(env, sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    // Envelopes written before session mode use one PRF evaluation per context.
+    const { secret: key } = await this.keyFor(
+      env.header.alg,
+      aad ?? env.header.aad ?? 'default',
+      env.header.kid || undefined
     );
-    return plain;
+    try {
+      return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+        null,
+        ct,
+        (aad ?? env.header.aad) ? new TextEncoder().encode(aad ?? env.header.aad!) : null,
+        nonce,
+        key
+      );
+    } catch (cause) {
+      throw new AuthenticationFailedError(undefined, { cause });
+    } finally {
+      if (env.header.alg === ALG_HKDF) key.fill(0);
+    }
   }
 
   /**
-   * Probe whether PRF/hmac-secret derivation is available for the stored credential.
+   * Probe whether PRF/hmac-secret derivation is available for a registered credential.
    * This will attempt a lightweight derive and return true/false instead of throwing.
    * Triggers a WebAuthn assertion prompt.
    */
-  async probe(context: string = 'probe'): Promise<boolean> {
+  async probe(context: string = 'probe', credentialId?: string): Promise<boolean> {
     try {
-      await this.deriveSecret(context);
+      await this.deriveSecret(context, credentialId);
       return true;
     } catch {
       return false;
@@ -149,6 +320,28 @@ export class WebAuthnProvider implements WebAuthnCrypto {
   }
 }
 
+type DerivedSecret = { secret: Uint8Array; credentialId: string };
+
+const cacheKey = (credentialId: string, context: string) => `${credentialId}|${context}`;
+
+function descriptor(credential: Pick<StoredCredential, 'id' | 'transports'>): PublicKeyCredentialDescriptor {
+  return {
+    type: 'public-key',
+    id: base64ToBytes(credential.id) as unknown as BufferSource,
+    transports: credential.transports,
+  };
+}
+
+async function hkdf(secret: Uint8Array, info: string): Promise<Uint8Array> {
+  const ikm = await crypto.subtle.importKey('raw', secret as unknown as BufferSource, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(info) },
+    ikm,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
 export function createWebAuthnCrypto(init: WebAuthnInit): WebAuthnCrypto {
   return new WebAuthnProvider(init);
 }
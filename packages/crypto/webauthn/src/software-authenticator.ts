@@ -0,0 +1,106 @@
+import { bytesToBase64 } from '@crypto/interface';
+import type { WebAuthnCredentials } from './index.js';
+
+// Deterministic in-process authenticator for tests. It implements just enough of
+// navigator.credentials create/get for WebAuthnProvider: credential ids, transports,
+// allow/exclude lists and PRF evaluation. It performs no signing and no user verification.
+
+export interface SoftwareAuthenticatorOptions {
+  seed?: Uint8Array | string; // same seed => same credential ids and PRF outputs
+  prf?: boolean; // report PRF results (default true); false models an authenticator without hmac-secret
+  transports?: AuthenticatorTransport[];
+}
+
+type SoftwareCredential = { rawId: Uint8Array; secret: Uint8Array };
+
+const PRF_LABEL = new TextEncoder().encode('WebAuthn PRF\0');
+
+export class SoftwareAuthenticator implements WebAuthnCredentials {
+  private seed: Uint8Array;
+  private prf: boolean;
+  private transports: AuthenticatorTransport[];
+  private held: SoftwareCredential[] = [];
+  /** Number of create() and get() calls, i.e. how often a real user would have been prompted. */
+  prompts = 0;
+
+  constructor(opts: SoftwareAuthenticatorOptions = {}) {
+    const seed = opts.seed ?? 'software-authenticator';
+    this.seed = typeof seed === 'string' ? new TextEncoder().encode(seed) : seed;
+    this.prf = opts.prf ?? true;
+    this.transports = opts.transports ?? ['internal'];
+  }
+
+  /** Base64 ids of the credentials this authenticator holds, in creation order. */
+  get credentialIds(): string[] {
+    return this.held.map((c) => bytesToBase64(c.rawId));
+  }
+
+  async create(options?: CredentialCreationOptions): Promise<Credential | null> {
+    this.prompts++;
+    const publicKey = options?.publicKey;
+    if (!publicKey) throw new DOMException('publicKey options required', 'NotSupportedError');
+    if ((publicKey.excludeCredentials ?? []).some((d) => this.find(d.id))) {
+      throw new DOMException('Authenticator already holds an excluded credential', 'InvalidStateError');
+    }
+    const index = new TextEncoder().encode(`credential:${this.held.length}`);
+    const rawId = (await hmac(this.seed, index)).slice(0, 16);
+    const secret = await hmac(this.seed, concat(new TextEncoder().encode('secret:'), rawId));
+    this.held.push({ rawId, secret });
+
+    const transports = [...this.transports];
+    return {
+      id: bytesToBase64(rawId),
+      type: 'public-key',
+      rawId: rawId.slice().buffer,
+      response: { getTransports: () => transports },
+      getClientExtensionResults: () => ({ prf: { enabled: this.prf } }),
+    } as unknown as Credential;
+  }
+
+  async get(options?: CredentialRequestOptions): Promise<Credential | null> {
+    this.prompts++;
+    const publicKey = options?.publicKey;
+    if (!publicKey) throw new DOMException('publicKey options required', 'NotSupportedError');
+    const allow = publicKey.allowCredentials ?? [];
+    const credential = allow.length
+      ? allow.map((d) => this.find(d.id)).find((c) => !!c)
+      : this.held[0];
+    if (!credential) throw new DOMException('No matching credential on this authenticator', 'NotAllowedError');
+
+    const salt = publicKey.extensions?.prf?.eval?.first;
+    let first: ArrayBuffer | undefined;
+    if (this.prf && salt) {
+      const hashed = new Uint8Array(await crypto.subtle.digest('SHA-256', concat(PRF_LABEL, toBytes(salt)) as unknown as BufferSource));
+      first = (await hmac(credential.secret, hashed)).buffer as ArrayBuffer;
+    }
+    return {
+      id: bytesToBase64(credential.rawId),
+      type: 'public-key',
+      rawId: credential.rawId.slice().buffer,
+      response: {},
+      getClientExtensionResults: () => (first ? { prf: { results: { first } } } : {}),
+    } as unknown as Credential;
+  }
+
+  private find(id: BufferSource): SoftwareCredential | undefined {
+    const wanted = bytesToBase64(toBytes(id));
+    return this.held.find((c) => bytesToBase64(c.rawId) === wanted);
+  }
+}
+
+async function hmac(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const k = await crypto.subtle.importKey('raw', key as unknown as BufferSource, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', k, data as unknown as BufferSource));
+}
+
+function toBytes(source: BufferSource): Uint8Array {
+  if (source instanceof ArrayBuffer) return new Uint8Array(source);
+  return new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+}
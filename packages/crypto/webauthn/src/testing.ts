@@ -0,0 +1,2 @@
+// Test-only helpers, kept out of the main entry so production bundles never ship a fake authenticator.
+export * from './software-authenticator.js';
@@ -1,16 +1,22 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { usePowerSync, useQuery } from "@powersync/react";
-import { createPasswordCrypto } from "@crypto/password";
+import { createPasswordWorkerCrypto, type KdfPhase } from "@crypto/password";
 import {
   createDEKCrypto,
   insertEncrypted,
   updateEncrypted,
   generateDEK,
+  searchMirror,
+  splitSnippet,
+  type EncryptedMirrorHandle,
 } from "@crypto/sqlite";
-import type { CryptoProvider } from "@crypto/interface";
+import { bytesToBase64, type CryptoProvider } from "@crypto/interface";
 import type { AuthChangeEvent } from "@supabase/supabase-js";
 import AuthScreen from "./components/AuthScreen";
 import VaultScreen from "./components/VaultScreen";
+import VaultSettingsScreen from "./components/VaultSettingsScreen";
+import RecoveryCodeScreen from "./components/RecoveryCodeScreen";
+import IdentityKeyScreen from "./components/IdentityKeyScreen";
 import ChatLayout from "./components/ChatLayout";
 import ResetPasswordScreen from "./components/ResetPasswordScreen";
 import {
@@ -24,18 +30,55 @@ import {
   sendPasswordResetEmail,
   updateCurrentUserPassword,
 } from "./utils/supabase";
-import { ensureVaultKey } from "./utils/keyring";
+import {
+  addVaultKeyWrap,
+  ensureVaultKey,
+  fetchWrappedKeyLocal,
+  makeKeyId,
+  passkeyCredentialId,
+  rewrapVaultKey,
+  unwrapVaultKey,
+} from "./utils/keyring";
+import {
+  createPasskeyProvider,
+  passkeysSupported,
+  registerPasskey,
+} from "./crypto/passkeys";
+import { createRecoveryCrypto, generateRecoveryCode } from "./crypto/recovery";
 import { CHAT_MESSAGES_PAIR, CHAT_ROOMS_PAIR } from "./encrypted/chatPairs";
 
 const ROOMS_MIRROR_TABLE = CHAT_ROOMS_PAIR.mirrorTable;
 const MESSAGES_MIRROR_TABLE = CHAT_MESSAGES_PAIR.mirrorTable;
 import { startChatMirrors } from "./encrypted/chatMirrors";
 import {
-  ensureIdentityKeyPair,
+  createIdentityKeyPair,
+  loadIdentityState,
   loadPeerPublicKey,
-  type IdentityKeyPair,
+  rotateIdentityKey,
+  type IdentityState,
 } from "./crypto/identity";
-import { wrapRoomKey, unwrapRoomKey } from "./crypto/roomKeys";
+import {
+  clearPeerVerification,
+  computeSafetyNumber,
+  getPeerVerification,
+  loadStrictVerification,
+  markPeerVerified,
+  peerTrust,
+  saveStrictVerification,
+  PEER_VERIFICATIONS_TABLE,
+  type PeerTrust,
+} from "./crypto/verification";
+import { signMessage, type MessageSignatureStatus } from "./crypto/signatures";
+import {
+  createRoomEpochCrypto,
+  createRoomKeyRing,
+  syncRoomKeyRing,
+  latestEpoch,
+  saveRoomKeyWrap,
+  wrapRoomKey,
+  unwrapRoomKey,
+  type RoomEpochKeys,
+} from "./crypto/roomKeys";
 
 function useSupabaseUser(): {
   userId: string | null;
@@ -75,18 +118,35 @@ function useSupabaseUser(): {
 
 function useVaultProviders(userId: string | null) {
   const { data } = useQuery(
-    "SELECT provider FROM chat_e2ee_keys WHERE user_id = ?",
+    "SELECT id, user_id, provider, label, created_at FROM chat_e2ee_keys WHERE user_id = ? ORDER BY created_at",
     [userId ?? ""],
     { throttleMs: 150 },
   );
   return useMemo(() => {
     const rows = Array.isArray(data)
-      ? (data as Array<{ provider: string }>)
+      ? (data as Array<{
+          id: string;
+          user_id: string;
+          provider: string;
+          label: string | null;
+          created_at: string;
+        }>)
       : [];
     const providers = new Set(rows.map((r) => r.provider));
+    const passkeys = rows
+      .filter((r) => r.provider === "webauthn")
+      .flatMap((r) => {
+        const id = passkeyCredentialId(r);
+        return id
+          ? [{ id, label: r.label ?? "Passkey", createdAt: r.created_at }]
+          : [];
+      });
     return {
       haveAny: providers.size > 0,
       havePassword: providers.has("password"),
+      havePasskey: passkeys.length > 0,
+      haveRecovery: providers.has("recovery"),
+      passkeys,
     };
   }, [data]);
 }
@@ -104,6 +164,7 @@ type MessagePlain = {
   senderId: string;
   text: string;
   sentAt: string;
+  signatureStatus: MessageSignatureStatus;
 };
 
 type MemberPlain = {
@@ -112,6 +173,7 @@ type MemberPlain = {
   invitedBy: string;
   role: string;
   joinedAt: string;
+  trust: PeerTrust;
 };
 
 const memberIdFor = (roomId: string, userId: string) => `${roomId}:${userId}`;
@@ -120,6 +182,9 @@ type RoomKeyRow = {
   room_id: string;
   user_id: string;
   wrapped_by: string | null;
+  epoch: number | null;
+  sender_key_version: number | null;
+  recipient_key_version: number | null;
   alg: string;
   aad?: string | null;
   nonce_b64: string;
@@ -139,8 +204,18 @@ export default function App() {
   }
 
   const [dataCrypto, setDataCrypto] = useState<CryptoProvider | null>(null);
-  const [identity, setIdentity] = useState<IdentityKeyPair | null>(null);
-  const [roomKeys, setRoomKeys] = useState<Map<string, Uint8Array>>(new Map());
+  const [identityState, setIdentityState] = useState<IdentityState>({
+    status: "locked",
+  });
+  // Bumped to re-run the identity check after a decrypt failure.
+  const [identityAttempt, setIdentityAttempt] = useState(0);
+  const identity =
+    identityState.status === "ready" ? identityState.keyPair : null;
+  const identityKeyPairs =
+    identityState.status === "ready" ? identityState.keyPairs : null;
+  const [roomKeys, setRoomKeys] = useState<Map<string, RoomEpochKeys>>(
+    new Map(),
+  );
   const [optimisticMessages, setOptimisticMessages] = useState<MessagePlain[]>(
     [],
   );
@@ -148,7 +223,18 @@ export default function App() {
   const [pendingRoomSelection, setPendingRoomSelection] =
     useState<string | null>(null);
   const [mirrorsStarted, setMirrorsStarted] = useState(false);
+  const mirrorsRef = useRef<EncryptedMirrorHandle | null>(null);
+  // Messages in the mirror's failures table: their key never arrived, or they do not parse.
+  const [undecryptableMessages, setUndecryptableMessages] = useState(0);
   const [passwordResetPending, setPasswordResetPending] = useState(false);
+  const [vaultPhase, setVaultPhase] = useState<KdfPhase | null>(null);
+  const vaultAbortRef = useRef<AbortController | null>(null);
+  // Unwrapped vault DEK, kept so further credentials (e.g. passkeys) can wrap it.
+  const vaultKeyRef = useRef<Uint8Array | null>(null);
+  const [showVaultSettings, setShowVaultSettings] = useState(false);
+  // Freshly issued recovery code, shown once until the user confirms they saved it.
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+  const [strictVerification, setStrictVerification] = useState(false);
   const [guestSupported, setGuestSupported] = useState(() =>
     isAnonymousSupported(),
   );
@@ -170,7 +256,7 @@ export default function App() {
 
   useEffect(() => {
     if (!dataCrypto) {
-      setIdentity(null);
+      setIdentityState({ status: "locked" });
       setRoomKeys(new Map());
       setOptimisticMessages([]);
     }
@@ -180,6 +266,10 @@ export default function App() {
     setGuestSupported(isAnonymousSupported());
   }, [userId]);
 
+  useEffect(() => {
+    setStrictVerification(userId ? loadStrictVerification(userId) : false);
+  }, [userId]);
+
   useEffect(() => {
     if (!authEvent) return;
     if (authEvent === "PASSWORD_RECOVERY") {
@@ -189,51 +279,108 @@ export default function App() {
     }
   }, [authEvent]);
 
+  // A single ring for the app's lifetime: new epochs are added as they are unwrapped and
+  // the mirrors retry just the rows waiting on them, without restarting.
+  const [roomKeyRing] = useState(createRoomKeyRing);
+  const syncedRoomKeysRef = useRef<Map<string, RoomEpochKeys>>(new Map());
+  useEffect(() => {
+    syncRoomKeyRing(roomKeyRing, roomKeys, syncedRoomKeysRef.current);
+    syncedRoomKeysRef.current = roomKeys;
+  }, [roomKeyRing, roomKeys]);
+
+  // Writes always use the room's newest epoch.
   const roomProviders = useMemo(() => {
     const map = new Map<string, CryptoProvider>();
-    for (const [roomId, key] of roomKeys.entries()) {
-      map.set(roomId, createDEKCrypto(key));
+    for (const [roomId, epochs] of roomKeys.entries()) {
+      const epoch = latestEpoch(epochs);
+      map.set(roomId, createRoomEpochCrypto(roomId, epochs.get(epoch)!, epoch));
     }
     return map;
   }, [roomKeys]);
 
   useEffect(() => {
     if (!userId || !dataCrypto) return;
-    const stop = startChatMirrors(
+    const mirrors = startChatMirrors(
       { db, userId, crypto: dataCrypto },
-      {
-        resolveCrypto: (row) => {
-          const candidate =
-            (row.bucket_id as string | undefined) ??
-            (row as any).room_id ??
-            (row.id as string | undefined);
-          if (!candidate) return null;
-          return roomProviders.get(candidate) ?? null;
-        },
-      },
+      { keyRing: roomKeyRing },
+    );
+    mirrorsRef.current = mirrors;
+    const stopStatus = mirrors.onStatus((status) =>
+      setUndecryptableMessages(
+        status.tables[MESSAGES_MIRROR_TABLE]?.failures ?? 0,
+      ),
     );
     setMirrorsStarted(true);
     return () => {
-      stop?.();
+      stopStatus();
+      mirrors();
+      mirrorsRef.current = null;
+      setUndecryptableMessages(0);
       setMirrorsStarted(false);
     };
-  }, [db, userId, dataCrypto, roomProviders]);
+  }, [db, userId, dataCrypto, roomKeyRing]);
+
+  // Re-checked whenever the synced private key row changes, so a key that was still
+  // syncing when the first decrypt attempt failed recovers on its own.
+  const { data: identityRows } = useQuery<{ cipher_b64: string }>(
+    "SELECT cipher_b64 FROM chat_identity_private_keys WHERE user_id = ? ORDER BY COALESCE(key_version, 1) DESC LIMIT 1",
+    [userId ?? ""],
+  );
+  const identityCipher = identityRows?.[0]?.cipher_b64 ?? null;
 
   useEffect(() => {
     if (!userId || !dataCrypto) return;
-    let cancelled = false;
+    const controller = new AbortController();
     (async () => {
       try {
-        const pair = await ensureIdentityKeyPair(db, userId, dataCrypto);
-        if (!cancelled) setIdentity(pair);
+        let state = await loadIdentityState(
+          db,
+          userId,
+          dataCrypto,
+          controller.signal,
+        );
+        // First unlock for this user: create the key. An existing key that fails to
+        // decrypt is never replaced here; that needs the user's confirmation.
+        if (state.status === "no-key") {
+          const keyPair = await createIdentityKeyPair(db, userId, dataCrypto);
+          state = {
+            status: "ready",
+            keyPair,
+            keyPairs: new Map([[keyPair.version, keyPair]]),
+          };
+        }
+        if (!controller.signal.aborted) setIdentityState(state);
       } catch (err) {
-        console.error("Failed to ensure identity key pair", err);
+        console.error("Failed to load identity key pair", err);
       }
     })();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [db, userId, dataCrypto]);
+  }, [db, userId, dataCrypto, identityCipher, identityAttempt]);
+
+  const handleRegenerateIdentity = async () => {
+    if (!userId || !dataCrypto) throw new Error("Vault not ready yet.");
+    const keyPair = await createIdentityKeyPair(db, userId, dataCrypto, {
+      replace: true,
+    });
+    setIdentityState({
+      status: "ready",
+      keyPair,
+      keyPairs: new Map([[keyPair.version, keyPair]]),
+    });
+  };
+
+  const handleRotateIdentityKey = async () => {
+    if (!userId || !dataCrypto || identityState.status !== "ready")
+      throw new Error("Vault not ready yet.");
+    const keyPair = await rotateIdentityKey(db, userId, dataCrypto, roomKeys);
+    setIdentityState({
+      status: "ready",
+      keyPair,
+      keyPairs: new Map(identityState.keyPairs).set(keyPair.version, keyPair),
+    });
+  };
 
   const { data: roomKeyRows } = useQuery(
     "SELECT * FROM chat_room_keys WHERE user_id = ?",
@@ -242,14 +389,14 @@ export default function App() {
   );
 
   useEffect(() => {
-    if (!identity || !userId) return;
+    if (!identityKeyPairs || !userId) return;
     const rows = Array.isArray(roomKeyRows)
       ? (roomKeyRows as RoomKeyRow[])
       : [];
     if (!rows.length) return;
     let cancelled = false;
     (async () => {
-      const resolved: Array<[string, Uint8Array]> = [];
+      const resolved: Array<[string, number, Uint8Array]> = [];
       for (const row of rows) {
         const roomId = row.room_id;
         if (!roomId) continue;
@@ -258,12 +405,20 @@ export default function App() {
           senderId: row.wrapped_by ?? row.user_id ?? userId,
           recipientId: userId,
         };
+        // Wraps written before key versions were recorded used version 1 on both sides.
+        const senderVersion = Number(row.sender_key_version ?? 1);
+        const ours = identityKeyPairs.get(
+          Number(row.recipient_key_version ?? 1),
+        );
+        if (!ours) continue;
         let peerPublic: Uint8Array | null = null;
         try {
           if (row.wrapped_by && row.wrapped_by !== userId) {
-            peerPublic = await loadPeerPublicKey(db, row.wrapped_by);
+            peerPublic =
+              (await loadPeerPublicKey(db, row.wrapped_by, senderVersion))
+                ?.publicKey ?? null;
           } else {
-            peerPublic = identity.publicKey;
+            peerPublic = identityKeyPairs.get(senderVersion)?.publicKey ?? null;
           }
           if (!peerPublic) continue;
           const env = {
@@ -276,13 +431,8 @@ export default function App() {
             nB64: row.nonce_b64,
             cB64: row.cipher_b64,
           };
-          const key = await unwrapRoomKey(
-            env,
-            identity.secretKey,
-            peerPublic,
-            ctx,
-          );
-          resolved.push([roomId, key]);
+          const key = await unwrapRoomKey(env, ours.secretKey, peerPublic, ctx);
+          resolved.push([roomId, Number(row.epoch ?? 1), key]);
         } catch (err) {
           console.warn("Failed to unwrap room key", row.room_id, err);
         }
@@ -290,8 +440,8 @@ export default function App() {
       if (cancelled || !resolved.length) return;
       setRoomKeys((prev) => {
         const next = new Map(prev);
-        for (const [roomId, key] of resolved) {
-          next.set(roomId, key);
+        for (const [roomId, epoch, key] of resolved) {
+          next.set(roomId, new Map(next.get(roomId)).set(epoch, key));
         }
         return next;
       });
@@ -299,7 +449,7 @@ export default function App() {
     return () => {
       cancelled = true;
     };
-  }, [roomKeyRows, identity, db, userId]);
+  }, [roomKeyRows, identityKeyPairs, db, userId]);
 
   const roomsSql = dbReady
     ? `SELECT * FROM ${ROOMS_MIRROR_TABLE} ORDER BY updated_at DESC`
@@ -381,6 +531,8 @@ export default function App() {
       senderId: String(row.sender_id ?? row.user_id ?? ""),
       text: String(row.text ?? ""),
       sentAt: String(row.sent_at ?? row.updated_at ?? new Date().toISOString()),
+      signatureStatus: (row.signature_status ??
+        "unverified") as MessageSignatureStatus,
     }));
   }, [messagesData, activeRoomId]);
 
@@ -404,9 +556,20 @@ export default function App() {
     );
   }, [remoteMessages, optimisticMessages, activeRoomId]);
 
+  // Each member's latest published key next to the key this device verified, if any.
   const { data: membershipData } = useQuery(
-    "SELECT * FROM chat_room_members WHERE room_id = ? ORDER BY joined_at ASC",
-    [activeRoomId ?? ""],
+    `
+    SELECT m.*, k.public_key_b64 AS public_key_b64, v.public_key_b64 AS verified_key_b64
+      FROM chat_room_members m
+      LEFT JOIN chat_identity_public_keys k
+        ON k.user_id = m.user_id
+       AND k.key_version = (SELECT MAX(key_version) FROM chat_identity_public_keys WHERE user_id = m.user_id)
+      LEFT JOIN ${PEER_VERIFICATIONS_TABLE} v
+        ON v.owner_id = ? AND v.peer_user_id = m.user_id
+     WHERE m.room_id = ?
+     ORDER BY m.joined_at ASC
+    `.trim(),
+    [userId ?? "", activeRoomId ?? ""],
     { throttleMs: 300 },
   );
   const members: MemberPlain[] = useMemo(() => {
@@ -417,6 +580,9 @@ export default function App() {
       invitedBy: String(row.invited_by ?? ""),
       role: String(row.role ?? "member"),
       joinedAt: String(row.joined_at ?? new Date().toISOString()),
+      trust: row.public_key_b64
+        ? peerTrust(row.verified_key_b64, row.public_key_b64)
+        : "unverified",
     }));
   }, [membershipData]);
 
@@ -465,8 +631,12 @@ export default function App() {
 
   const handleSignOut = async () => {
     await signOut();
+    vaultKeyRef.current?.fill(0);
+    vaultKeyRef.current = null;
     setDataCrypto(null);
-    setIdentity(null);
+    setShowVaultSettings(false);
+    setRecoveryCode(null);
+    setIdentityState({ status: "locked" });
     setRoomKeys(new Map());
     setOptimisticMessages([]);
     setActiveRoomId(null);
@@ -474,31 +644,241 @@ export default function App() {
     setPasswordResetPending(false);
   };
 
-  const handleCreateVault = async (passphrase: string) => {
+  const openVault = (dek: Uint8Array) => {
+    vaultKeyRef.current = dek;
+    setDataCrypto(createDEKCrypto(dek));
+  };
+
+  // Wrap the DEK under a new recovery code (replacing any previous one) and show the code.
+  const issueRecoveryCode = async (dek: Uint8Array) => {
     if (!userId) throw new Error("User not authenticated.");
+    const code = await generateRecoveryCode();
+    const wrapper = await createRecoveryCrypto(code);
+    await addVaultKeyWrap(db, userId, "recovery", wrapper, dek);
+    setRecoveryCode(code);
+  };
+
+  const runVaultPassphrase = async (
+    passphrase: string,
+    create: boolean,
+    failure: string,
+  ) => {
+    if (!userId) throw new Error("User not authenticated.");
+    const controller = new AbortController();
+    vaultAbortRef.current = controller;
+    // Derivation runs on a worker so the cancel button stays responsive.
+    const wrapper = createPasswordWorkerCrypto({
+      password: passphrase,
+      preferWebCrypto: true,
+      signal: controller.signal,
+      onProgress: (event) => setVaultPhase(event.phase),
+    });
     try {
-      const wrapper = createPasswordCrypto({
-        password: passphrase,
-        preferWebCrypto: true,
-      });
-      const dek = await ensureVaultKey(db, userId, "password", wrapper);
-      setDataCrypto(createDEKCrypto(dek));
+      const dek = create
+        ? await ensureVaultKey(db, userId, "password", wrapper)
+        : await unwrapVaultKey(db, userId, "password", wrapper);
+      if (create && !(await fetchWrappedKeyLocal(db, userId, "recovery"))) {
+        await issueRecoveryCode(dek);
+      }
+      openVault(dek);
     } catch (err: any) {
-      throw new Error(err?.message ?? "Failed to create vault.");
+      if (err?.name === "AbortError") throw err;
+      throw new Error(err?.message ?? failure);
+    } finally {
+      wrapper.zeroize();
+      if (vaultAbortRef.current === controller) vaultAbortRef.current = null;
+      setVaultPhase(null);
     }
   };
 
-  const handleUnlockVault = async (passphrase: string) => {
+  const handleCreateVault = (passphrase: string) =>
+    runVaultPassphrase(passphrase, true, "Failed to create vault.");
+
+  const handleUnlockVault = (passphrase: string) =>
+    runVaultPassphrase(
+      passphrase,
+      false,
+      "Passphrase did not unlock your vault.",
+    );
+
+  // Unlock with the recovery code, then replace the passphrase wrap with a new passphrase.
+  const handleRecoverVault = async (code: string, newPassphrase: string) => {
     if (!userId) throw new Error("User not authenticated.");
+    const recovery = await createRecoveryCrypto(code);
+    let dek: Uint8Array;
     try {
-      const wrapper = createPasswordCrypto({
-        password: passphrase,
-        preferWebCrypto: true,
-      });
-      const dek = await ensureVaultKey(db, userId, "password", wrapper);
-      setDataCrypto(createDEKCrypto(dek));
+      dek = await unwrapVaultKey(db, userId, "recovery", recovery);
     } catch (err: any) {
-      throw new Error(err?.message ?? "Passphrase did not unlock your vault.");
+      throw new Error(
+        err?.message?.startsWith("No recovery code")
+          ? err.message
+          : "That recovery code did not unlock your vault.",
+      );
+    }
+    const controller = new AbortController();
+    vaultAbortRef.current = controller;
+    const wrapper = createPasswordWorkerCrypto({
+      password: newPassphrase,
+      preferWebCrypto: true,
+      signal: controller.signal,
+      onProgress: (event) => setVaultPhase(event.phase),
+    });
+    try {
+      await addVaultKeyWrap(db, userId, "password", wrapper, dek);
+      openVault(dek);
+    } finally {
+      wrapper.zeroize();
+      if (vaultAbortRef.current === controller) vaultAbortRef.current = null;
+      setVaultPhase(null);
+    }
+  };
+
+  const handleRegenerateRecoveryCode = async () => {
+    const dek = vaultKeyRef.current;
+    if (!dek) throw new Error("Unlock your vault first.");
+    await issueRecoveryCode(dek);
+  };
+
+  // Safety number for the peer's latest key; the version is kept so marking it verified
+  // records exactly the key the user compared.
+  const handleLoadSafetyNumber = async (peerId: string) => {
+    if (!userId || !identity) throw new Error("Vault not ready yet.");
+    const peer = await loadPeerPublicKey(db, peerId);
+    if (!peer) throw new Error("This user has not published an identity key.");
+    const safetyNumber = await computeSafetyNumber(
+      { userId, publicKey: identity.publicKey },
+      { userId: peerId, publicKey: peer.publicKey },
+    );
+    return { ...safetyNumber, keyVersion: peer.version };
+  };
+
+  const handleSetPeerVerified = async (
+    peerId: string,
+    keyVersion: number | null,
+  ) => {
+    if (!userId) throw new Error("User not authenticated.");
+    if (keyVersion === null) {
+      await clearPeerVerification(db, userId, peerId);
+      return;
+    }
+    const peer = await loadPeerPublicKey(db, peerId, keyVersion);
+    if (!peer)
+      throw new Error("This user's identity key is no longer available.");
+    await markPeerVerified(db, userId, peerId, peer);
+  };
+
+  const handleStrictVerificationChange = (strict: boolean) => {
+    if (!userId) return;
+    saveStrictVerification(userId, strict);
+    setStrictVerification(strict);
+  };
+
+  const handleCancelVault = () => {
+    vaultAbortRef.current?.abort();
+  };
+
+  // Passkey wraps are stored once per credential; the envelope records which one.
+  const handleCreateVaultWithPasskey = async () => {
+    if (!userId) throw new Error("User not authenticated.");
+    const provider = createPasskeyProvider(db, userId);
+    try {
+      const label = "Passkey 1";
+      const credential = await registerPasskey(provider, label);
+      const dek = await generateDEK();
+      await addVaultKeyWrap(
+        db,
+        userId,
+        "webauthn",
+        provider,
+        dek,
+        makeKeyId(userId, "webauthn", credential.id),
+        label,
+      );
+      await issueRecoveryCode(dek);
+      openVault(dek);
+    } catch (err: any) {
+      throw new Error(err?.message ?? "Failed to create vault with passkey.");
+    } finally {
+      provider.lock();
+    }
+  };
+
+  const handleUnlockWithPasskey = async () => {
+    if (!userId) throw new Error("User not authenticated.");
+    const provider = createPasskeyProvider(db, userId);
+    try {
+      // One prompt: any registered passkey may answer, and its wrap is unwrapped from the session.
+      const credentialId = await provider.unlock();
+      const dek = await unwrapVaultKey(
+        db,
+        userId,
+        "webauthn",
+        provider,
+        makeKeyId(userId, "webauthn", credentialId),
+      );
+      openVault(dek);
+    } catch (err: any) {
+      throw new Error(err?.message ?? "Passkey did not unlock your vault.");
+    } finally {
+      provider.lock();
+    }
+  };
+
+  const handleAddPasskey = async () => {
+    const dek = vaultKeyRef.current;
+    if (!userId || !dek) throw new Error("Unlock your vault first.");
+    const provider = createPasskeyProvider(db, userId);
+    try {
+      const label = `Passkey ${providers.passkeys.length + 1}`;
+      const credential = await registerPasskey(provider, label);
+      await addVaultKeyWrap(
+        db,
+        userId,
+        "webauthn",
+        provider,
+        dek,
+        makeKeyId(userId, "webauthn", credential.id),
+        label,
+      );
+    } finally {
+      provider.lock();
+    }
+  };
+
+  const handleChangePassphrase = async (current: string, next: string) => {
+    if (!userId) throw new Error("User not authenticated.");
+    const oldWrapper = createPasswordWorkerCrypto({
+      password: current,
+      preferWebCrypto: true,
+    });
+    const newWrapper = createPasswordWorkerCrypto({
+      password: next,
+      preferWebCrypto: true,
+    });
+    try {
+      await rewrapVaultKey(db, userId, oldWrapper, newWrapper);
+    } catch (err: any) {
+      throw new Error(
+        err?.message ?? "Current passphrase did not unlock your vault.",
+      );
+    } finally {
+      oldWrapper.zeroize();
+      newWrapper.zeroize();
+    }
+  };
+
+  // Passkey-only vaults have no passphrase wrap to rewrap; add one from the unlocked DEK.
+  const handleSetPassphrase = async (next: string) => {
+    const dek = vaultKeyRef.current;
+    if (!userId || !dek) throw new Error("Unlock your vault first.");
+    const wrapper = createPasswordWorkerCrypto({
+      password: next,
+      preferWebCrypto: true,
+    });
+    try {
+      await addVaultKeyWrap(db, userId, "password", wrapper, dek);
+    } finally {
+      wrapper.zeroize();
     }
   };
 
@@ -518,14 +898,14 @@ export default function App() {
 
     setRoomKeys((prev) => {
       const next = new Map(prev);
-      next.set(id, roomKey);
+      next.set(id, new Map([[1, roomKey]]));
       return next;
     });
 
     setPendingRoomSelection(id);
 
     try {
-      const roomCrypto = createDEKCrypto(roomKey);
+      const roomCrypto = createRoomEpochCrypto(id, roomKey, 1);
       await insertEncrypted(
         { db, userId, crypto: roomCrypto },
         CHAT_ROOMS_PAIR,
@@ -539,34 +919,19 @@ export default function App() {
         "INSERT INTO chat_room_members (id, room_id, user_id, invited_by, role, joined_at) VALUES (?, ?, ?, ?, ?, ?)",
         [memberIdFor(id, userId), id, userId, userId, "owner", nowIso],
       );
+      const ctx = { roomId: id, senderId: userId, recipientId: userId };
       const envelope = await wrapRoomKey(
         roomKey,
         identity.secretKey,
         identity.publicKey,
-        {
-          roomId: id,
-          senderId: userId,
-          recipientId: userId,
-        },
-      );
-      await db.execute("DELETE FROM chat_room_keys WHERE id = ?", [
-        `${id}:${userId}`,
-      ]);
-      await db.execute(
-        "INSERT INTO chat_room_keys (id, room_id, user_id, wrapped_by, alg, aad, nonce_b64, cipher_b64, kdf_salt_b64, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
-        [
-          `${id}:${userId}`,
-          id,
-          userId,
-          userId,
-          envelope.header.alg,
-          envelope.header.aad ?? null,
-          envelope.nB64,
-          envelope.cB64,
-          envelope.header.kdf.saltB64 ?? "",
-          nowIso,
-        ],
+        ctx,
       );
+      await saveRoomKeyWrap(db, ctx, envelope, {
+        epoch: 1,
+        senderKeyVersion: identity.version,
+        recipientKeyVersion: identity.version,
+        createdAt: nowIso,
+      });
       setActiveRoomId(id);
       return id;
     } catch (err: any) {
@@ -577,7 +942,7 @@ export default function App() {
   };
 
   const handleSendMessage = async (roomId: string, text: string) => {
-    if (!userId) throw new Error("User not authenticated.");
+    if (!userId || !identity) throw new Error("Vault not ready yet.");
     const provider = roomProviders.get(roomId);
     if (!provider) throw new Error("Room key not available yet.");
     const id = crypto.randomUUID();
@@ -588,6 +953,7 @@ export default function App() {
       senderId: userId,
       text,
       sentAt: now,
+      signatureStatus: "verified",
     };
     setOptimisticMessages((prev) => [...prev, optimistic]);
     try {
@@ -597,7 +963,18 @@ export default function App() {
         {
           id,
           bucketId: roomId,
-          object: { text, sentAt: now, senderId: userId },
+          object: {
+            text,
+            sentAt: now,
+            senderId: userId,
+            sig: await signMessage(identity.signingSecretKey, {
+              roomId,
+              id,
+              sentAt: now,
+              text,
+            }),
+            sigKeyVersion: identity.version,
+          },
         },
       );
     } catch (err: any) {
@@ -610,21 +987,38 @@ export default function App() {
     if (!userId || !identity) throw new Error("Vault not ready yet.");
     if (targetUserId === userId)
       throw new Error("You are already in this room.");
-    const roomKey = roomKeys.get(roomId);
-    if (!roomKey) throw new Error("Room key not available yet.");
-    const existingRoom = rooms.find((room) => room.id === roomId);
-    const peerPublic = await loadPeerPublicKey(db, targetUserId);
-    if (!peerPublic)
+    const epochs = roomKeys.get(roomId);
+    if (!epochs) throw new Error("Room key not available yet.");
+    const peer = await loadPeerPublicKey(db, targetUserId);
+    if (!peer)
       throw new Error("Target user has not published an identity key.");
-    const envelope = await wrapRoomKey(
-      roomKey,
-      identity.secretKey,
-      peerPublic,
-      {
-        roomId,
-        senderId: userId,
-        recipientId: targetUserId,
-      },
+    if (strictVerification) {
+      const verification = await getPeerVerification(db, userId, targetUserId);
+      const trust = peerTrust(
+        verification?.public_key_b64,
+        bytesToBase64(peer.publicKey),
+      );
+      if (trust === "changed")
+        throw new Error(
+          "This user's identity key changed since you verified it. Compare safety numbers again before inviting them.",
+        );
+      if (trust === "unverified")
+        throw new Error(
+          "Verify this user's safety number before inviting them.",
+        );
+    }
+    // Share every epoch we hold so the new member can read the room's history.
+    const ctx = { roomId, senderId: userId, recipientId: targetUserId };
+    const envelopes = await Promise.all(
+      [...epochs].map(async ([epoch, roomKey]) => ({
+        epoch,
+        envelope: await wrapRoomKey(
+          roomKey,
+          identity.secretKey,
+          peer.publicKey,
+          ctx,
+        ),
+      })),
     );
     const now = new Date().toISOString();
     await db.writeTransaction(async (tx) => {
@@ -642,46 +1036,140 @@ export default function App() {
           now,
         ],
       );
-      await tx.execute("DELETE FROM chat_room_keys WHERE id = ?", [
-        `${roomId}:${targetUserId}`,
-      ]);
-      await tx.execute(
-        "INSERT INTO chat_room_keys (id, room_id, user_id, wrapped_by, alg, aad, nonce_b64, cipher_b64, kdf_salt_b64, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
-        [
-          `${roomId}:${targetUserId}`,
-          roomId,
-          targetUserId,
-          userId,
-          envelope.header.alg,
-          envelope.header.aad ?? null,
-          envelope.nB64,
-          envelope.cB64,
-          envelope.header.kdf.saltB64 ?? "",
-          now,
-        ],
-      );
+      for (const { epoch, envelope } of envelopes) {
+        await saveRoomKeyWrap(tx, ctx, envelope, {
+          epoch,
+          senderKeyVersion: identity.version,
+          recipientKeyVersion: peer.version,
+          createdAt: now,
+        });
+      }
     });
 
-    if (existingRoom) {
-      const roomProvider = roomProviders.get(roomId);
-      if (roomProvider) {
-        try {
-          await updateEncrypted(
-            { db, userId, crypto: roomProvider },
-            CHAT_ROOMS_PAIR,
-            {
-              id: roomId,
-              bucketId: roomId,
-              object: {
-                name: existingRoom.name,
-                topic: existingRoom.topic ?? undefined,
-              },
-            },
+    const roomProvider = roomProviders.get(roomId);
+    if (roomProvider) {
+      try {
+        await reencryptRoomMetadata(roomId, roomProvider);
+      } catch (err) {
+        console.warn("Failed to bump room metadata after inviting user", err);
+      }
+    }
+  };
+
+  // Room rows belong to their creator, whose user_id is also bound into the AAD, so any
+  // member rewriting the name and topic writes them under the creator's id.
+  const reencryptRoomMetadata = async (
+    roomId: string,
+    crypto: CryptoProvider,
+  ) => {
+    const existingRoom = rooms.find((room) => room.id === roomId);
+    if (!existingRoom)
+      throw new Error("Room metadata has not been decrypted on this device.");
+    const owners = await db.getAll<{ user_id: string }>(
+      "SELECT user_id FROM chat_rooms WHERE id = ?",
+      [roomId],
+    );
+    if (!owners.length) throw new Error("Room not found on this device.");
+    await updateEncrypted(
+      { db, userId: owners[0].user_id, crypto },
+      CHAT_ROOMS_PAIR,
+      {
+        id: roomId,
+        bucketId: roomId,
+        object: {
+          name: existingRoom.name,
+          topic: existingRoom.topic ?? undefined,
+        },
+      },
+    );
+  };
+
+  // Removal starts a new room key epoch wrapped only to the remaining members, so the
+  // removed member cannot read anything sent afterwards. Earlier epochs stay readable.
+  const handleRemoveMember = async (roomId: string, memberId: string) => {
+    if (!userId || !identity) throw new Error("Vault not ready yet.");
+    if (memberId === userId)
+      throw new Error("You cannot remove yourself from a room.");
+    const epochs = roomKeys.get(roomId);
+    if (!epochs) throw new Error("Room key not available yet.");
+    // Mirror the server's rules (owners remove anyone, inviters their invitees) before
+    // writing anything locally, so the removal and new epoch are not rejected on upload.
+    const membership = await db.getAll<{
+      user_id: string;
+      role: string;
+      invited_by: string;
+    }>(
+      "SELECT user_id, role, invited_by FROM chat_room_members WHERE room_id = ? AND user_id IN (?, ?)",
+      [roomId, userId, memberId],
+    );
+    const target = membership.find((row) => row.user_id === memberId);
+    if (!target) throw new Error("That user is not a member of this room.");
+    const ownRole = membership.find((row) => row.user_id === userId)?.role;
+    if (ownRole !== "owner" && target.invited_by !== userId)
+      throw new Error(
+        "Only the room owner or the member's inviter can remove them.",
+      );
+    const remainingRows = await db.getAll<{ user_id: string }>(
+      "SELECT user_id FROM chat_room_members WHERE room_id = ? AND user_id != ?",
+      [roomId, memberId],
+    );
+    const recipients = new Set([
+      userId,
+      ...remainingRows.map((row) => row.user_id),
+    ]);
+    const epoch = latestEpoch(epochs) + 1;
+    const roomKey = await generateDEK();
+    const wraps = await Promise.all(
+      [...recipients].map(async (recipientId) => {
+        const recipient =
+          recipientId === userId
+            ? { version: identity.version, publicKey: identity.publicKey }
+            : await loadPeerPublicKey(db, recipientId);
+        if (!recipient)
+          throw new Error(
+            `Member ${recipientId} has not published an identity key.`,
           );
-        } catch (err) {
-          console.warn("Failed to bump room metadata after inviting user", err);
-        }
+        const ctx = { roomId, senderId: userId, recipientId };
+        return {
+          ctx,
+          recipientKeyVersion: recipient.version,
+          envelope: await wrapRoomKey(
+            roomKey,
+            identity.secretKey,
+            recipient.publicKey,
+            ctx,
+          ),
+        };
+      }),
+    );
+    const now = new Date().toISOString();
+    await db.writeTransaction(async (tx) => {
+      await tx.execute("DELETE FROM chat_room_members WHERE id = ?", [
+        memberIdFor(roomId, memberId),
+      ]);
+      for (const { ctx, recipientKeyVersion, envelope } of wraps) {
+        await saveRoomKeyWrap(tx, ctx, envelope, {
+          epoch,
+          senderKeyVersion: identity.version,
+          recipientKeyVersion,
+          createdAt: now,
+        });
       }
+    });
+    setRoomKeys((prev) =>
+      new Map(prev).set(roomId, new Map(prev.get(roomId)).set(epoch, roomKey)),
+    );
+
+    // Re-encrypt the room metadata so the name and topic also move to the new epoch.
+    try {
+      await reencryptRoomMetadata(
+        roomId,
+        createRoomEpochCrypto(roomId, roomKey, epoch),
+      );
+    } catch (err: any) {
+      throw new Error(
+        `Member removed, but the room name could not be moved to the new key: ${err?.message ?? err}`,
+      );
     }
   };
 
@@ -718,8 +1206,17 @@ export default function App() {
     return (
       <VaultScreen
         hasVault={providers.haveAny}
+        hasPassword={providers.havePassword}
+        hasPasskey={providers.havePasskey}
+        hasRecovery={providers.haveRecovery}
+        passkeySupported={passkeysSupported()}
+        onCreateWithPasskey={handleCreateVaultWithPasskey}
+        onUnlockWithPasskey={handleUnlockWithPasskey}
+        onRecover={handleRecoverVault}
         onCreateVault={handleCreateVault}
         onUnlockVault={handleUnlockVault}
+        onCancel={handleCancelVault}
+        kdfPhase={vaultPhase}
         onSignOut={handleSignOut}
       />
     );
@@ -727,21 +1224,70 @@ export default function App() {
 
   if (!identity) {
     return (
-      <div className="min-h-screen bg-slate-950/5 flex items-center justify-center">
-        <div className="flex flex-col items-center gap-3">
-          <div className="text-sm text-slate-500">Preparing identity keys…</div>
-          <button
-            type="button"
-            className="btn-secondary"
-            onClick={() => handleSignOut()}
-          >
-            Sign Out
-          </button>
-        </div>
-      </div>
+      <IdentityKeyScreen
+        status={
+          identityState.status === "decrypt-failed"
+            ? "decrypt-failed"
+            : "locked"
+        }
+        onRetry={() => setIdentityAttempt((n) => n + 1)}
+        onRegenerate={handleRegenerateIdentity}
+        onSignOut={handleSignOut}
+      />
+    );
+  }
+
+  if (recoveryCode) {
+    return (
+      <RecoveryCodeScreen
+        code={recoveryCode}
+        onDone={() => setRecoveryCode(null)}
+      />
     );
   }
 
+  if (showVaultSettings) {
+    return (
+      <VaultSettingsScreen
+        hasPassword={providers.havePassword}
+        hasRecovery={providers.haveRecovery}
+        passkeys={providers.passkeys}
+        passkeySupported={passkeysSupported()}
+        onChangePassphrase={handleChangePassphrase}
+        onSetPassphrase={handleSetPassphrase}
+        onAddPasskey={handleAddPasskey}
+        onRegenerateRecoveryCode={handleRegenerateRecoveryCode}
+        identityKeyVersion={identity.version}
+        strictVerification={strictVerification}
+        onStrictVerificationChange={handleStrictVerificationChange}
+        onRotateIdentityKey={handleRotateIdentityKey}
+        onClose={() => setShowVaultSettings(false)}
+      />
+    );
+  }
+
+  const handleRetryUndecryptable = async () => {
+    await mirrorsRef.current?.redrive({
+      mirrorTable: MESSAGES_MIRROR_TABLE,
+    });
+  };
+
+  const handleSearchMessages = async (query: string, roomId: string | null) => {
+    const hits = await searchMirror<Record<string, any>>(
+      db,
+      CHAT_MESSAGES_PAIR,
+      query,
+      { bucketId: roomId ?? undefined, limit: 50 },
+    );
+    return hits.map(({ row, snippet }) => ({
+      id: String(row.id),
+      roomId: String(row.room_id),
+      senderId: String(row.sender_id),
+      sentAt: String(row.sent_at),
+      snippet: splitSnippet(snippet),
+    }));
+  };
+
   const handleSelectRoom = (roomId: string) => {
     const exists = rooms.some((room) => room.id === roomId);
     setPendingRoomSelection(exists ? null : roomId);
@@ -752,6 +1298,8 @@ export default function App() {
     <ChatLayout
       userId={userId}
       mirrorsStarted={mirrorsStarted}
+      undecryptableMessages={undecryptableMessages}
+      onRetryUndecryptable={handleRetryUndecryptable}
       rooms={rooms}
       activeRoomId={activeRoomId}
       onSelectRoom={handleSelectRoom}
@@ -759,15 +1307,21 @@ export default function App() {
       messages={messages}
       members={members
         .filter((member) => member.roomId === (activeRoomId ?? ""))
-        .map(({ userId: memberId, invitedBy, role, joinedAt }) => ({
+        .map(({ userId: memberId, invitedBy, role, joinedAt, trust }) => ({
           userId: memberId,
           invitedBy,
           role,
           joinedAt,
+          trust,
         }))}
       canSendToActiveRoom={canSendToActiveRoom}
       onSendMessage={handleSendMessage}
       onInviteUser={handleInviteUser}
+      onRemoveMember={handleRemoveMember}
+      onLoadSafetyNumber={handleLoadSafetyNumber}
+      onSetPeerVerified={handleSetPeerVerified}
+      onSearchMessages={handleSearchMessages}
+      onOpenVaultSettings={() => setShowVaultSettings(true)}
       onSignOut={handleSignOut}
     />
   );
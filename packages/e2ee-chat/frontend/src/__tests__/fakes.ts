@@ -0,0 +1,101 @@
+type Row = Record<string, any>;
+
+/**
+ * In-memory stand-in for the PowerSync database, enough for the helpers under test: single
+ * table `SELECT ... WHERE col = ? AND ...` with `ORDER BY` / `LIMIT`, `INSERT`, `UPDATE ... WHERE
+ * id = ?` and `DELETE ... WHERE id = ?`. Other queries are answered from `handlers`, matched by
+ * SQL substring. A write transaction that throws leaves the tables as they were.
+ */
+export class FakeDb {
+  tables = new Map<string, Map<string, Row>>();
+  handlers: Record<string, (params: any[], db: FakeDb) => Row[]> = {};
+  waitForFirstSync = async (_opts?: {
+    signal?: AbortSignal;
+    priority?: number;
+  }) => {};
+
+  rows(table: string): Row[] {
+    return [...(this.tables.get(table)?.values() ?? [])];
+  }
+
+  insert(table: string, row: Row) {
+    if (!this.tables.has(table)) this.tables.set(table, new Map());
+    this.tables.get(table)!.set(String(row.id), { ...row });
+  }
+
+  async getAll<T = Row>(sql: string, params: any[] = []): Promise<T[]> {
+    const handler = Object.keys(this.handlers).find((key) => sql.includes(key));
+    if (handler) return this.handlers[handler](params, this) as T[];
+    const match = sql.match(
+      /^SELECT (.+?) FROM (\w+)(?: WHERE (.+?))?(?: ORDER BY (.+?))?(?: LIMIT (\d+))?$/s,
+    );
+    if (!match) throw new Error(`FakeDb cannot answer: ${sql}`);
+    const [, columns, table, where, orderBy, limit] = match;
+    const conditions = (where ?? "").split(" AND ").filter(Boolean);
+    let rows = this.rows(table).filter((row) =>
+      conditions.every((condition, i) => {
+        const column = condition.match(/^(\w+) = \?$/)?.[1];
+        if (!column) throw new Error(`FakeDb cannot filter on: ${condition}`);
+        return row[column] === params[i];
+      }),
+    );
+    if (orderBy) {
+      const order = orderBy.match(
+        /^(?:COALESCE\((\w+), (\d+)\)|(\w+))( DESC)?$/,
+      );
+      if (!order) throw new Error(`FakeDb cannot order by: ${orderBy}`);
+      const [, coalesced, fallback, column, desc] = order;
+      const key = (row: Row) =>
+        coalesced ? (row[coalesced] ?? Number(fallback)) : row[column];
+      rows.sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0));
+      if (desc) rows.reverse();
+    }
+    if (limit) rows = rows.slice(0, Number(limit));
+    return (columns === "1" ? rows.map(() => ({ 1: 1 })) : rows) as T[];
+  }
+
+  async execute(sql: string, params: any[] = []): Promise<any> {
+    const insert = sql.match(/^INSERT INTO (\w+) \(([^)]+)\)/);
+    if (insert) {
+      const columns = insert[2].split(",").map((c) => c.trim());
+      this.insert(
+        insert[1],
+        Object.fromEntries(columns.map((c, i) => [c, params[i]])),
+      );
+      return;
+    }
+    const remove = sql.match(/^DELETE FROM (\w+) WHERE id = \?$/);
+    if (remove) {
+      this.tables.get(remove[1])?.delete(String(params[0]));
+      return;
+    }
+    const update = sql.match(/^UPDATE (\w+) SET (.+) WHERE id = \?$/s);
+    if (update) {
+      const row = this.tables.get(update[1])?.get(String(params.at(-1)));
+      if (!row) return;
+      update[2].split(", ").forEach((assignment, i) => {
+        const [column, value] = assignment.split(" = ");
+        // `COALESCE(?, column)` keeps the stored value when given NULL.
+        if (value !== "?" && params[i] == null) return;
+        row[column] = params[i];
+      });
+      return;
+    }
+    throw new Error(`FakeDb cannot execute: ${sql}`);
+  }
+
+  async writeTransaction<T>(fn: (tx: FakeDb) => Promise<T>): Promise<T> {
+    const snapshot = new Map(
+      [...this.tables].map(([name, rows]) => [
+        name,
+        new Map([...rows].map(([id, row]) => [id, { ...row }])),
+      ]),
+    );
+    try {
+      return await fn(this);
+    } catch (err) {
+      this.tables = snapshot;
+      throw err;
+    }
+  }
+}
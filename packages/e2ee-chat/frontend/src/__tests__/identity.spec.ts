@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { createDEKCrypto } from "@crypto/sqlite";
+import {
+  createIdentityKeyPair,
+  loadIdentityState,
+  rotateIdentityKey,
+} from "../crypto/identity";
+import { unwrapRoomKey } from "../crypto/roomKeys";
+import { FakeDb } from "./fakes";
+
+const kek = createDEKCrypto(new Uint8Array(32).fill(7));
+
+function identityDb() {
+  const db = new FakeDb();
+  db.handlers["SELECT MAX(version)"] = ([userId], db) => {
+    const versions = [
+      ...db
+        .rows("chat_identity_private_keys")
+        .filter((row) => row.user_id === userId)
+        .map((row) => row.key_version ?? 1),
+      ...db
+        .rows("chat_identity_public_keys")
+        .filter((row) => row.user_id === userId)
+        .map((row) => row.key_version),
+    ];
+    return [{ version: versions.length ? Math.max(...versions) : null }];
+  };
+  return db;
+}
+
+describe("loadIdentityState", () => {
+  it("stays locked until the user bucket has synced", async () => {
+    const db = identityDb();
+    const waits: Array<{ signal?: AbortSignal; priority?: number }> = [];
+    // Like PowerSync, the wait ends early when its signal aborts.
+    db.waitForFirstSync = (opts = {}) => {
+      waits.push(opts);
+      return new Promise<void>((resolve) =>
+        opts.signal?.addEventListener("abort", () => resolve()),
+      );
+    };
+    const controller = new AbortController();
+
+    const state = loadIdentityState(db as any, "u1", kek, controller.signal);
+    controller.abort();
+
+    expect(await state).toEqual({ status: "locked" });
+    expect(waits).toEqual([{ signal: controller.signal, priority: 1 }]);
+  });
+
+  it("reports no key once synced without one", async () => {
+    const db = identityDb();
+    expect(await loadIdentityState(db as any, "u1", kek)).toEqual({
+      status: "no-key",
+    });
+  });
+
+  it("reports a key the vault key cannot open", async () => {
+    const db = identityDb();
+    await createIdentityKeyPair(db as any, "u1", kek);
+
+    const other = createDEKCrypto(new Uint8Array(32).fill(8));
+    const state = await loadIdentityState(db as any, "u1", other);
+    expect(state).toMatchObject({
+      status: "decrypt-failed",
+      error: { name: "AuthenticationFailedError" },
+    });
+  });
+
+  it("loads the keypair and publishes a missing signing key", async () => {
+    const db = identityDb();
+    const created = await createIdentityKeyPair(db as any, "u1", kek);
+    const published = db.rows("chat_identity_public_keys")[0];
+    db.insert("chat_identity_public_keys", {
+      ...published,
+      signing_public_key_b64: null,
+    });
+
+    const state = await loadIdentityState(db as any, "u1", kek);
+    if (state.status !== "ready") throw new Error(`state is ${state.status}`);
+    expect(state.keyPair.version).toBe(1);
+    expect(state.keyPair.publicKeyB64).toBe(created.publicKeyB64);
+    expect(state.keyPair.signingPublicKeyB64).toBe(created.signingPublicKeyB64);
+    expect([...state.keyPairs.keys()]).toEqual([1]);
+    expect(db.rows("chat_identity_public_keys")[0].signing_public_key_b64).toBe(
+      created.signingPublicKeyB64,
+    );
+  });
+});
+
+describe("rotateIdentityKey", () => {
+  it("adds a new version and re-wraps room keys to it", async () => {
+    const db = identityDb();
+    await createIdentityKeyPair(db as any, "u1", kek);
+    const v1Row = db.rows("chat_identity_private_keys")[0];
+    const roomKeys = new Map([
+      [
+        "r1",
+        new Map([
+          [1, new Uint8Array(32).fill(1)],
+          [2, new Uint8Array(32).fill(2)],
+        ]),
+      ],
+    ]);
+
+    const next = await rotateIdentityKey(db as any, "u1", kek, roomKeys);
+
+    expect(next.version).toBe(2);
+    expect(db.rows("chat_identity_private_keys").map((row) => row.id)).toEqual([
+      "identity:u1",
+      "identity:u1:2",
+    ]);
+    expect(db.rows("chat_identity_private_keys")[0]).toEqual(v1Row);
+    const state = await loadIdentityState(db as any, "u1", kek);
+    if (state.status !== "ready") throw new Error(`state is ${state.status}`);
+    expect(state.keyPair.version).toBe(2);
+    expect([...state.keyPairs.keys()].sort()).toEqual([1, 2]);
+
+    const ctx = { roomId: "r1", senderId: "u1", recipientId: "u1" };
+    const wraps = db.rows("chat_room_keys");
+    expect(wraps.map((row) => row.id)).toEqual(["r1:u1", "r1:u1:2"]);
+    for (const row of wraps) {
+      expect(row.recipient_key_version).toBe(2);
+      const env = {
+        header: {
+          v: 1 as const,
+          alg: row.alg,
+          aad: row.aad ?? undefined,
+          kdf: { saltB64: row.kdf_salt_b64 },
+        },
+        nB64: row.nonce_b64,
+        cB64: row.cipher_b64,
+      };
+      expect(
+        await unwrapRoomKey(env, next.secretKey, next.publicKey, ctx),
+      ).toEqual(roomKeys.get("r1")!.get(row.epoch));
+    }
+  });
+});
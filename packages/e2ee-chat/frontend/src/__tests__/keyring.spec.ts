@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import type { CryptoProvider } from "@crypto/interface";
+import { createDEKCrypto } from "@crypto/sqlite";
+import {
+  addVaultKeyWrap,
+  ensureVaultKey,
+  fetchWrappedKeyLocal,
+  makeKeyId,
+  rewrapVaultKey,
+  unwrapVaultKey,
+} from "../utils/keyring";
+import { FakeDb } from "./fakes";
+
+const oldWrapper = createDEKCrypto(new Uint8Array(32).fill(1));
+const newWrapper = createDEKCrypto(new Uint8Array(32).fill(2));
+
+async function setup() {
+  const db = new FakeDb();
+  const dek = await ensureVaultKey(db as any, "u1", "password", oldWrapper);
+  const before = await fetchWrappedKeyLocal(db, "u1", "password");
+  return { db, dek, before: before! };
+}
+
+describe("vault key wraps", () => {
+  it("rewraps the same vault key under a new credential", async () => {
+    const { db, dek } = await setup();
+
+    await rewrapVaultKey(db as any, "u1", oldWrapper, newWrapper);
+
+    expect(
+      await unwrapVaultKey(db as any, "u1", "password", newWrapper),
+    ).toEqual(dek);
+    await expect(
+      unwrapVaultKey(db as any, "u1", "password", oldWrapper),
+    ).rejects.toMatchObject({ name: "AuthenticationFailedError" });
+  });
+
+  it("adds a passkey wrap next to the existing one", async () => {
+    const { db, dek } = await setup();
+    const keyId = makeKeyId("u1", "webauthn", "cred-1");
+
+    await addVaultKeyWrap(
+      db as any,
+      "u1",
+      "webauthn",
+      newWrapper,
+      dek,
+      keyId,
+      "Laptop",
+    );
+
+    expect(
+      await unwrapVaultKey(db as any, "u1", "webauthn", newWrapper, keyId),
+    ).toEqual(dek);
+    expect(
+      await unwrapVaultKey(db as any, "u1", "password", oldWrapper),
+    ).toEqual(dek);
+    expect(
+      (await fetchWrappedKeyLocal(db, "u1", "webauthn", keyId))?.label,
+    ).toBe("Laptop");
+  });
+
+  it("refuses to replace a wrap that changed while rewrapping", async () => {
+    const { db, before } = await setup();
+    const changed = { ...before, cipher_b64: "from-another-device" };
+    // Another device's wrap syncs in while the new one is being made.
+    const racing: CryptoProvider = {
+      encrypt: async (plain, aad) => {
+        db.insert("chat_e2ee_keys", changed);
+        return newWrapper.encrypt(plain, aad);
+      },
+      decrypt: (env, aad) => newWrapper.decrypt(env, aad),
+    };
+
+    await expect(
+      rewrapVaultKey(db as any, "u1", oldWrapper, racing),
+    ).rejects.toThrow("Vault key changed while re-wrapping");
+    expect(await fetchWrappedKeyLocal(db, "u1", "password")).toEqual(changed);
+  });
+
+  it("leaves the old wrap in place when the new one fails verification", async () => {
+    const { db, dek, before } = await setup();
+    const broken: CryptoProvider = {
+      encrypt: (plain, aad) => newWrapper.encrypt(plain, aad),
+      decrypt: async () => new Uint8Array(32),
+    };
+
+    await expect(
+      rewrapVaultKey(db as any, "u1", oldWrapper, broken),
+    ).rejects.toThrow("failed verification");
+    expect(await fetchWrappedKeyLocal(db, "u1", "password")).toEqual(before);
+    expect(
+      await unwrapVaultKey(db as any, "u1", "password", oldWrapper),
+    ).toEqual(dek);
+  });
+});
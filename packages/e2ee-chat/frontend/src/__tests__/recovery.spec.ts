@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRecoveryCrypto,
+  formatRecoveryCode,
+  generateRecoveryCode,
+  normalizeRecoveryCode,
+} from "../crypto/recovery";
+
+const dek = new TextEncoder().encode("vault dek");
+
+describe("recovery codes", () => {
+  it("opens what the same code wrapped", async () => {
+    const code = await generateRecoveryCode();
+    expect(code).toMatch(/^([A-Z2-7]{4}-){7}[A-Z2-7]{4}$/);
+
+    const writer = await createRecoveryCrypto(code);
+    const env = await writer.encrypt(dek, "vault-dek-v1");
+    const reader = await createRecoveryCrypto(code);
+    expect(new TextDecoder().decode(await reader.decrypt(env))).toBe(
+      "vault dek",
+    );
+  });
+
+  it("ignores case, separators and look-alike characters", async () => {
+    const code = await generateRecoveryCode();
+    const canonical = normalizeRecoveryCode(code)!;
+    expect(formatRecoveryCode(canonical)).toBe(code);
+    expect(
+      normalizeRecoveryCode(` ${code.toLowerCase().replace(/-/g, " ")} `),
+    ).toBe(canonical);
+    expect(normalizeRecoveryCode("O".repeat(32))).toBe(
+      normalizeRecoveryCode("0".repeat(32)),
+    );
+
+    const writer = await createRecoveryCrypto(code);
+    const env = await writer.encrypt(dek);
+    const typed = await createRecoveryCrypto(canonical.toLowerCase());
+    expect(new TextDecoder().decode(await typed.decrypt(env))).toBe(
+      "vault dek",
+    );
+  });
+
+  it("rejects malformed codes and does not open with a different one", async () => {
+    expect(normalizeRecoveryCode("ABCD-EFGH")).toBeNull();
+    expect(normalizeRecoveryCode("A".repeat(31) + "9")).toBeNull();
+    await expect(createRecoveryCrypto("not a code")).rejects.toThrow(
+      "not valid",
+    );
+
+    const writer = await createRecoveryCrypto(await generateRecoveryCode());
+    const env = await writer.encrypt(dek);
+    const other = await createRecoveryCrypto(await generateRecoveryCode());
+    await expect(other.decrypt(env)).rejects.toMatchObject({
+      name: "AuthenticationFailedError",
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import sodium from "libsodium-wrappers-sumo";
+import { bytesToBase64 } from "@crypto/interface";
+import { signMessage, verifyMessageSignature } from "../crypto/signatures";
+import { CHAT_MESSAGES_PAIR } from "../encrypted/chatPairs";
+import { checkMessageSignature } from "../encrypted/chatMirrors";
+
+const fields = {
+  roomId: "r1",
+  id: "m1",
+  sentAt: "2026-01-02T03:04:05.000Z",
+  text: "hello",
+};
+
+let signing: { publicKey: Uint8Array; privateKey: Uint8Array };
+let rotated: { publicKey: Uint8Array; privateKey: Uint8Array };
+
+beforeAll(async () => {
+  await sodium.ready;
+  signing = sodium.crypto_sign_keypair();
+  rotated = sodium.crypto_sign_keypair();
+});
+
+/** Runs a message row through parsePlain and the mirror transform, as the replicator does. */
+async function mirrorStatus(
+  payload: Record<string, unknown>,
+  row: { sent_at?: string; sender_signing_keys?: string | null } = {},
+) {
+  const encryptedRow = {
+    id: fields.id,
+    bucket_id: fields.roomId,
+    sender_id: "u1",
+    updated_at: fields.sentAt,
+    sent_at: fields.sentAt,
+    sender_signing_keys: JSON.stringify({
+      1: bytesToBase64(signing.publicKey),
+    }),
+    ...row,
+  } as any;
+  const decrypted = CHAT_MESSAGES_PAIR.parsePlain({
+    plaintext: new TextEncoder().encode(JSON.stringify(payload)),
+    aad: "chat-message-v1",
+    encryptedRow,
+  });
+  const values = { ...decrypted, sent_at: encryptedRow.sent_at };
+  const mirrored = await checkMessageSignature(values, decrypted, encryptedRow);
+  return mirrored.signature_status;
+}
+
+async function signedPayload(secretKey = signing.privateKey, version = 1) {
+  return {
+    text: fields.text,
+    sentAt: fields.sentAt,
+    senderId: "u1",
+    sig: await signMessage(secretKey, fields),
+    sigKeyVersion: version,
+  };
+}
+
+describe("message signatures", () => {
+  it("verifies only the fields that were signed", async () => {
+    const sig = await signMessage(signing.privateKey, fields);
+    const publicKey = bytesToBase64(signing.publicKey);
+
+    expect(await verifyMessageSignature(publicKey, fields, sig)).toBe(true);
+    expect(
+      await verifyMessageSignature(
+        publicKey,
+        { ...fields, text: "hello!" },
+        sig,
+      ),
+    ).toBe(false);
+    expect(
+      await verifyMessageSignature(
+        publicKey,
+        { ...fields, sentAt: "2026-01-02T03:04:06.000Z" },
+        sig,
+      ),
+    ).toBe(false);
+    expect(
+      await verifyMessageSignature(
+        bytesToBase64(rotated.publicKey),
+        fields,
+        sig,
+      ),
+    ).toBe(false);
+    expect(await verifyMessageSignature(publicKey, fields, "not-base64!")).toBe(
+      false,
+    );
+  });
+
+  it("marks a validly signed message verified", async () => {
+    expect(await mirrorStatus(await signedPayload())).toBe("verified");
+    // The server may hand sent_at back in another format for the same instant.
+    expect(
+      await mirrorStatus(await signedPayload(), {
+        sent_at: "2026-01-02 03:04:05+00",
+      }),
+    ).toBe("verified");
+  });
+
+  it("marks tampered text or sent_at as a mismatch", async () => {
+    const payload = await signedPayload();
+
+    expect(await mirrorStatus({ ...payload, text: "goodbye" })).toBe(
+      "mismatch",
+    );
+    expect(
+      await mirrorStatus({ ...payload, sentAt: "2026-01-02T03:04:06.000Z" }),
+    ).toBe("mismatch");
+    // The sent_at column is server-writable; the signed time is inside the ciphertext.
+    expect(
+      await mirrorStatus(payload, { sent_at: "2026-01-02T03:04:06.000Z" }),
+    ).toBe("mismatch");
+  });
+
+  it("leaves messages with an unknown signing key unverified", async () => {
+    // The sender rotated to version 2, but that signing key has not synced yet.
+    const payload = await signedPayload(rotated.privateKey, 2);
+    expect(await mirrorStatus(payload)).toBe("unverified");
+    expect(await mirrorStatus(payload, { sender_signing_keys: null })).toBe(
+      "unverified",
+    );
+
+    const keys = JSON.stringify({
+      1: bytesToBase64(signing.publicKey),
+      2: bytesToBase64(rotated.publicKey),
+    });
+    expect(await mirrorStatus(payload, { sender_signing_keys: keys })).toBe(
+      "verified",
+    );
+    // Signed with the rotated key but naming the old version.
+    expect(
+      await mirrorStatus(
+        { ...payload, sigKeyVersion: 1 },
+        { sender_signing_keys: keys },
+      ),
+    ).toBe("mismatch");
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, it, expect } from "vitest";
+import { computeSafetyNumber } from "../crypto/verification";
+
+const alice = { userId: "alice", publicKey: new Uint8Array(32).fill(1) };
+// Upper case sorts before lower case by code unit, but after it in most locales.
+const bob = { userId: "Bob", publicKey: new Uint8Array(32).fill(2) };
+
+describe("safety numbers", () => {
+  it("are the same from both sides", async () => {
+    const mine = await computeSafetyNumber(alice, bob);
+    const theirs = await computeSafetyNumber(bob, alice);
+    expect(theirs).toEqual(mine);
+    expect(mine.digits).toMatch(/^(\d{5} ){11}\d{5}$/);
+    expect(mine.qrPayload.startsWith("chat-e2ee-verify:1:Bob:")).toBe(true);
+  });
+});
@@ -1,6 +1,7 @@
 import { use, useEffect, useMemo, useRef, useState } from "react";
 import {
   Bars3Icon,
+  MagnifyingGlassIcon,
   PaperAirplaneIcon,
   PlusIcon,
   UserGroupIcon,
@@ -8,6 +9,13 @@ import {
   XMarkIcon,
 } from "@heroicons/react/24/solid";
 import { Avatar } from "./Avatar";
+import {
+  SafetyNumberPanel,
+  TrustBadge,
+  type PeerTrust,
+  type SafetyNumberInfo,
+} from "./SafetyNumberPanel";
+import { SearchPanel, type MessageSearchResult } from "./SearchPanel";
 
 type Room = {
   id: string;
@@ -21,6 +29,7 @@ type Message = {
   senderId: string;
   text: string;
   sentAt: string;
+  signatureStatus: "verified" | "unverified" | "mismatch";
 };
 
 type Member = {
@@ -28,11 +37,14 @@ type Member = {
   invitedBy: string;
   role: string;
   joinedAt: string;
+  trust: PeerTrust;
 };
 
 type ChatLayoutProps = {
   userId: string;
   mirrorsStarted: boolean;
+  undecryptableMessages: number;
+  onRetryUndecryptable: () => Promise<void>;
   rooms: Room[];
   activeRoomId: string | null;
   onSelectRoom: (roomId: string) => void;
@@ -42,6 +54,17 @@ type ChatLayoutProps = {
   canSendToActiveRoom: boolean;
   onSendMessage: (roomId: string, text: string) => Promise<void>;
   onInviteUser: (roomId: string, targetUserId: string) => Promise<void>;
+  onRemoveMember: (roomId: string, memberId: string) => Promise<void>;
+  onLoadSafetyNumber: (peerId: string) => Promise<SafetyNumberInfo>;
+  onSetPeerVerified: (
+    peerId: string,
+    keyVersion: number | null,
+  ) => Promise<void>;
+  onSearchMessages: (
+    query: string,
+    roomId: string | null,
+  ) => Promise<MessageSearchResult[]>;
+  onOpenVaultSettings: () => void;
   onSignOut: () => void | Promise<void>;
 };
 
@@ -49,6 +72,8 @@ export default function ChatLayout(props: ChatLayoutProps) {
   const {
     userId,
     mirrorsStarted,
+    undecryptableMessages,
+    onRetryUndecryptable,
     rooms,
     activeRoomId,
     onSelectRoom,
@@ -58,10 +83,16 @@ export default function ChatLayout(props: ChatLayoutProps) {
     canSendToActiveRoom,
     onSendMessage,
     onInviteUser,
+    onRemoveMember,
+    onLoadSafetyNumber,
+    onSetPeerVerified,
+    onSearchMessages,
+    onOpenVaultSettings,
     onSignOut,
   } = props;
 
   const [showRoomsDrawer, setShowRoomsDrawer] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
   const activeRoom = useMemo(
     () => rooms.find((room) => room.id === activeRoomId) ?? null,
     [rooms, activeRoomId],
@@ -70,6 +101,7 @@ export default function ChatLayout(props: ChatLayoutProps) {
     "idle",
   );
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [retryingUndecryptable, setRetryingUndecryptable] = useState(false);
   const copyResetTimer = useRef<number | null>(null);
   const userMenuRef = useRef<HTMLDivElement | null>(null);
   const userMenuButtonRef = useRef<HTMLButtonElement | null>(null);
@@ -119,6 +151,17 @@ export default function ChatLayout(props: ChatLayoutProps) {
     }
   }
 
+  async function handleRetryUndecryptable() {
+    setRetryingUndecryptable(true);
+    try {
+      await onRetryUndecryptable();
+    } catch (err) {
+      console.warn("Failed to retry undecryptable messages", err);
+    } finally {
+      setRetryingUndecryptable(false);
+    }
+  }
+
   return (
     <div className="h-screen min-h-screen min-h-[100dvh] h-[100dvh] flex flex-col overflow-hidden bg-gradient-to-br from-slate-50 via-white to-slate-100 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950 text-slate-900 dark:text-slate-50">
       <header className="border-b border-slate-200/70 dark:border-slate-800/70 bg-white/70 dark:bg-slate-950/70 backdrop-blur sticky top-0 z-20 shadow-sm shrink-0">
@@ -149,6 +192,15 @@ export default function ChatLayout(props: ChatLayoutProps) {
             </div>
           </div>
           <div className="flex items-center gap-2 sm:gap-4 w-auto">
+            <button
+              type="button"
+              className="btn-secondary-sm h-10 w-10 rounded-full"
+              onClick={() => setShowSearch(true)}
+              data-testid="search-button"
+              aria-label="Search messages"
+            >
+              <MagnifyingGlassIcon className="h-5 w-5" />
+            </button>
             <div className="relative">
               <button
                 type="button"
@@ -209,6 +261,17 @@ export default function ChatLayout(props: ChatLayoutProps) {
                       Close
                     </button>
                   </div>
+                  <button
+                    type="button"
+                    className="btn-secondary w-full"
+                    onClick={() => {
+                      setShowUserMenu(false);
+                      onOpenVaultSettings();
+                    }}
+                    data-testid="vault-settings-button"
+                  >
+                    Vault settings
+                  </button>
                   <button
                     type="button"
                     className="btn w-full"
@@ -224,6 +287,31 @@ export default function ChatLayout(props: ChatLayoutProps) {
         </div>
       </header>
 
+      {undecryptableMessages > 0 ? (
+        <div className="max-w-6xl mx-auto w-full px-4 sm:px-6 pt-4 shrink-0">
+          <div
+            className="flex items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50/80 px-4 py-2 text-sm text-amber-800"
+            data-testid="undecryptable-messages-banner"
+          >
+            <span>
+              {undecryptableMessages === 1
+                ? "1 message"
+                : `${undecryptableMessages} messages`}{" "}
+              could not be decrypted.
+            </span>
+            <button
+              type="button"
+              className="btn-secondary-sm"
+              disabled={retryingUndecryptable}
+              onClick={handleRetryUndecryptable}
+              data-testid="retry-undecryptable-button"
+            >
+              {retryingUndecryptable ? "Retrying…" : "Retry"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
       <main className="flex-1 min-h-0 w-full overflow-hidden py-6">
         <div className="h-full min-h-0 max-w-6xl mx-auto px-4 sm:px-6 grid auto-rows-[minmax(0,1fr)] gap-6 lg:gap-8 lg:grid-cols-12 overflow-hidden">
           <div className="hidden lg:flex lg:flex-col lg:col-span-4 xl:col-span-3 min-h-0 overflow-hidden">
@@ -251,6 +339,13 @@ export default function ChatLayout(props: ChatLayoutProps) {
                   ? onInviteUser(activeRoom.id, targetUserId)
                   : Promise.resolve()
               }
+              onRemoveMember={(memberId) =>
+                activeRoom
+                  ? onRemoveMember(activeRoom.id, memberId)
+                  : Promise.resolve()
+              }
+              onLoadSafetyNumber={onLoadSafetyNumber}
+              onSetPeerVerified={onSetPeerVerified}
             />
           </div>
         </div>
@@ -275,6 +370,18 @@ export default function ChatLayout(props: ChatLayoutProps) {
           />
         </div>
       ) : null}
+      {showSearch ? (
+        <SearchPanel
+          rooms={rooms}
+          activeRoomId={activeRoomId}
+          onSearch={onSearchMessages}
+          onSelectResult={(result) => {
+            setShowSearch(false);
+            onSelectRoom(result.roomId);
+          }}
+          onClose={() => setShowSearch(false)}
+        />
+      ) : null}
     </div>
   );
 }
@@ -509,6 +616,9 @@ function ChatPanel({
   members,
   onSendMessage,
   onInviteUser,
+  onRemoveMember,
+  onLoadSafetyNumber,
+  onSetPeerVerified,
 }: {
   userId: string;
   room: Room | null;
@@ -517,6 +627,12 @@ function ChatPanel({
   members: Member[];
   onSendMessage: (text: string) => Promise<void>;
   onInviteUser: (targetUserId: string) => Promise<void>;
+  onRemoveMember: (memberId: string) => Promise<void>;
+  onLoadSafetyNumber: (peerId: string) => Promise<SafetyNumberInfo>;
+  onSetPeerVerified: (
+    peerId: string,
+    keyVersion: number | null,
+  ) => Promise<void>;
 }) {
   const [messageDraft, setMessageDraft] = useState("");
   const [messageError, setMessageError] = useState<string | null>(null);
@@ -526,6 +642,8 @@ function ChatPanel({
   const [inviting, setInviting] = useState(false);
   const [showInvite, setShowInvite] = useState(true);
   const [selectedMember, setSelectedMember] = useState<string | null>(null);
+  const [removingMember, setRemovingMember] = useState<string | null>(null);
+  const [removeError, setRemoveError] = useState<string | null>(null);
   const [showMemberPopover, setShowMemberPopover] = useState(false);
   const [visibleUserId, setVisibleUserId] = useState<string | null>(null);
 
@@ -538,6 +656,11 @@ function ChatPanel({
     () => [...members].sort((a, b) => a.userId.localeCompare(b.userId)),
     [members],
   );
+  const ownRole = members.find((member) => member.userId === userId)?.role;
+  // Owners can remove anyone; other members only the people they invited.
+  const canRemove = (member: Member) =>
+    member.userId !== userId &&
+    (ownRole === "owner" || member.invitedBy === userId);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -629,6 +752,19 @@ function ChatPanel({
     }
   }
 
+  async function handleRemove(memberId: string) {
+    setRemoveError(null);
+    setRemovingMember(memberId);
+    try {
+      await onRemoveMember(memberId);
+      setSelectedMember(null);
+    } catch (err: any) {
+      setRemoveError(err?.message ?? "Failed to remove member.");
+    } finally {
+      setRemovingMember(null);
+    }
+  }
+
   const sendDisabled = !canSend || messageSending || !messageDraft.trim();
 
   if (!room) {
@@ -674,6 +810,12 @@ function ChatPanel({
               >
                 <UserGroupIcon className="h-4 w-4" />
                 <span>{members.length}</span>
+                {members.some((member) => member.trust === "changed") ? (
+                  <span
+                    className="h-2 w-2 rounded-full bg-red-500"
+                    aria-label="A member's identity key changed"
+                  />
+                ) : null}
               </button>
               {showMemberPopover ? (
                 <div
@@ -731,6 +873,17 @@ function ChatPanel({
                     <h3 className="text-sm font-semibold text-slate-600 uppercase tracking-wide">
                       Members
                     </h3>
+                    {membersSorted.some(
+                      (member) => member.trust === "changed",
+                    ) ? (
+                      <p
+                        className="rounded-lg border border-red-200 bg-red-50/80 px-3 py-2 text-xs text-red-700"
+                        data-testid="member-key-changed-warning"
+                      >
+                        A member you verified has a new identity key. Check
+                        their safety number before sharing anything sensitive.
+                      </p>
+                    ) : null}
                     {membersSorted.length === 0 ? (
                       <p className="text-xs text-slate-500">
                         No members synced yet.
@@ -762,7 +915,12 @@ function ChatPanel({
                                         ? "You"
                                         : member.userId}
                                     </span>
-                                    <span className="badge">{member.role}</span>
+                                    <span className="flex items-center gap-1">
+                                      {member.userId !== userId ? (
+                                        <TrustBadge trust={member.trust} />
+                                      ) : null}
+                                      <span className="badge">{member.role}</span>
+                                    </span>
                                   </div>
                                   {isSelected ? (
                                     <div className="space-y-1 text-[11px] text-slate-500">
@@ -770,6 +928,37 @@ function ChatPanel({
                                       <div className="text-slate-400">
                                         {formatTimestamp(member.joinedAt)}
                                       </div>
+                                      {member.userId !== userId ? (
+                                        <SafetyNumberPanel
+                                          peerId={member.userId}
+                                          trust={member.trust}
+                                          onLoad={onLoadSafetyNumber}
+                                          onSetVerified={onSetPeerVerified}
+                                        />
+                                      ) : null}
+                                      {canRemove(member) ? (
+                                        <div className="pt-1">
+                                          <button
+                                            type="button"
+                                            className="btn-secondary text-xs text-red-600"
+                                            disabled={removingMember !== null}
+                                            onClick={(ev) => {
+                                              ev.stopPropagation();
+                                              void handleRemove(member.userId);
+                                            }}
+                                            data-testid="remove-member-button"
+                                          >
+                                            {removingMember === member.userId
+                                              ? "Removing…"
+                                              : "Remove from room"}
+                                          </button>
+                                          {removeError ? (
+                                            <div className="text-red-600 mt-1">
+                                              {removeError}
+                                            </div>
+                                          ) : null}
+                                        </div>
+                                      ) : null}
                                     </div>
                                   ) : null}
                                 </div>
@@ -845,6 +1034,16 @@ function ChatPanel({
                           isOwn ? 'text-white/80' : 'text-slate-400 dark:text-slate-500'
                         }`}
                       >
+                        {!isOwn ? (
+                          <span
+                            className={`mr-2 normal-case ${SIGNATURE_STATUS[msg.signatureStatus].className}`}
+                            data-testid="message-signature-status"
+                            data-status={msg.signatureStatus}
+                            title={SIGNATURE_STATUS[msg.signatureStatus].title}
+                          >
+                            {SIGNATURE_STATUS[msg.signatureStatus].label}
+                          </span>
+                        ) : null}
                         {timestamp}
                       </span>
                     </div>
@@ -933,6 +1132,29 @@ function ChatPanel({
   );
 }
 
+const SIGNATURE_STATUS: Record<
+  Message["signatureStatus"],
+  { label: string; title: string; className: string }
+> = {
+  verified: {
+    label: "✓ Signed",
+    title: "Signed by the sender's identity key.",
+    className: "text-emerald-600",
+  },
+  unverified: {
+    label: "Unsigned",
+    title:
+      "This message is not signed, or the sender's signing key has not synced yet.",
+    className: "",
+  },
+  mismatch: {
+    label: "Signature mismatch",
+    title:
+      "The signature does not match the sender. This message may be forged.",
+    className: "font-semibold text-red-600",
+  },
+};
+
 function formatTimestamp(ts: string) {
   try {
     return new Intl.DateTimeFormat(undefined, {
@@ -0,0 +1,129 @@
+import { useState } from "react";
+
+type IdentityKeyScreenProps = {
+  status: "locked" | "decrypt-failed";
+  onRetry: () => void;
+  onRegenerate: () => Promise<void>;
+  onSignOut: () => void;
+};
+
+export default function IdentityKeyScreen({
+  status,
+  onRetry,
+  onRegenerate,
+  onSignOut,
+}: IdentityKeyScreenProps) {
+  const [confirmed, setConfirmed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleRegenerate() {
+    setError(null);
+    setBusy(true);
+    try {
+      await onRegenerate();
+    } catch (err: any) {
+      setError(err?.message ?? "Failed to generate a new identity key.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (status === "locked") {
+    return (
+      <div className="min-h-screen bg-slate-950/5 flex items-center justify-center">
+        <div className="flex flex-col items-center gap-3">
+          <div
+            className="text-sm text-slate-500"
+            data-testid="identity-syncing"
+          >
+            Preparing identity keys…
+          </div>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => onSignOut()}
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 via-white to-slate-50 text-slate-900">
+      <div className="mx-auto flex min-h-screen w-full items-center justify-center px-4 sm:px-6 py-12">
+        <div className="w-full max-w-3xl">
+          <div className="card px-8 py-10 space-y-6">
+            <div className="space-y-1.5">
+              <h1
+                className="text-2xl font-semibold text-slate-900"
+                data-testid="identity-error-heading"
+              >
+                Your identity key could not be opened
+              </h1>
+              <p className="text-sm text-slate-500">
+                The vault unlocked, but the identity key stored for your account
+                did not decrypt with it. This can happen while another device is
+                still syncing; try again before doing anything else.
+              </p>
+            </div>
+            {error ? (
+              <div className="rounded-lg border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-700">
+                {error}
+              </div>
+            ) : null}
+            <div className="flex flex-col gap-3 sm:flex-row">
+              <button
+                type="button"
+                className="btn flex-1"
+                disabled={busy}
+                onClick={onRetry}
+                data-testid="identity-retry-button"
+              >
+                Try again
+              </button>
+              <button
+                type="button"
+                className="btn-secondary flex-1"
+                disabled={busy}
+                onClick={() => onSignOut()}
+              >
+                Sign Out
+              </button>
+            </div>
+            <div className="space-y-3 rounded-lg border border-red-200 px-4 py-4">
+              <h2 className="text-sm font-semibold text-red-700">
+                Generate a new identity key
+              </h2>
+              <p className="text-sm text-slate-500">
+                A new key replaces the old one for good. Rooms you were invited
+                to with the old key become unreadable until someone invites you
+                again.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={confirmed}
+                  onChange={(ev) => setConfirmed(ev.target.checked)}
+                  data-testid="identity-regenerate-checkbox"
+                />
+                I understand I will lose access to my existing rooms
+              </label>
+              <button
+                type="button"
+                className="btn-secondary w-full"
+                disabled={!confirmed || busy}
+                onClick={handleRegenerate}
+                data-testid="identity-regenerate-button"
+              >
+                {busy ? "Generating…" : "Generate new identity key"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
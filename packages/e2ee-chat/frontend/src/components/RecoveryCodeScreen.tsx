@@ -0,0 +1,88 @@
+import { useState } from "react";
+
+type RecoveryCodeScreenProps = {
+  code: string;
+  onDone: () => void;
+};
+
+export default function RecoveryCodeScreen({
+  code,
+  onDone,
+}: RecoveryCodeScreenProps) {
+  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "error">(
+    "idle",
+  );
+  const [saved, setSaved] = useState(false);
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopyStatus("copied");
+    } catch (err) {
+      console.warn("Failed to copy recovery code", err);
+      setCopyStatus("error");
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 via-white to-slate-50 text-slate-900">
+      <div className="mx-auto flex min-h-screen w-full items-center justify-center px-4 sm:px-6 py-12">
+        <div className="w-full max-w-3xl">
+          <div className="card px-8 py-10 space-y-6">
+            <div className="space-y-1.5">
+              <h1
+                className="text-2xl font-semibold text-slate-900"
+                data-testid="recovery-code-heading"
+              >
+                Save your recovery code
+              </h1>
+              <p className="text-sm text-slate-500">
+                If you forget your passphrase or lose your passkeys, this code
+                is the only way back into your encrypted rooms. It is shown
+                once; store it somewhere safe and offline.
+              </p>
+            </div>
+            <div
+              className="rounded-lg border border-slate-200 bg-slate-50 px-4 py-5 text-center font-mono text-lg tracking-wider break-all"
+              data-testid="recovery-code"
+            >
+              {code}
+            </div>
+            <div className="flex flex-col gap-3 sm:flex-row">
+              <button
+                type="button"
+                className="btn-secondary flex-1"
+                onClick={handleCopy}
+                data-testid="copy-recovery-code-button"
+              >
+                {copyStatus === "copied"
+                  ? "Copied!"
+                  : copyStatus === "error"
+                    ? "Copy failed"
+                    : "Copy code"}
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={saved}
+                onChange={(ev) => setSaved(ev.target.checked)}
+                data-testid="recovery-code-saved-checkbox"
+              />
+              I have saved my recovery code
+            </label>
+            <button
+              type="button"
+              className="btn w-full"
+              disabled={!saved}
+              onClick={onDone}
+              data-testid="recovery-code-done-button"
+            >
+              Continue
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+
+export type PeerTrust = "verified" | "changed" | "unverified";
+
+export type SafetyNumberInfo = {
+  digits: string;
+  qrPayload: string;
+  keyVersion: number;
+};
+
+export function TrustBadge({ trust }: { trust: PeerTrust }) {
+  if (trust === "verified") {
+    return (
+      <span
+        className="badge bg-emerald-100 text-emerald-700"
+        data-testid="member-trust-verified"
+      >
+        Verified
+      </span>
+    );
+  }
+  if (trust === "changed") {
+    return (
+      <span
+        className="badge bg-red-100 text-red-700"
+        data-testid="member-trust-changed"
+        title="This member's identity key changed since you verified it."
+      >
+        Key changed
+      </span>
+    );
+  }
+  return null;
+}
+
+export function SafetyNumberPanel({
+  peerId,
+  trust,
+  onLoad,
+  onSetVerified,
+}: {
+  peerId: string;
+  trust: PeerTrust;
+  onLoad: (peerId: string) => Promise<SafetyNumberInfo>;
+  onSetVerified: (peerId: string, keyVersion: number | null) => Promise<void>;
+}) {
+  const [info, setInfo] = useState<SafetyNumberInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [showPayload, setShowPayload] = useState(false);
+
+  // Reload when trust changes: a changed key means a new safety number.
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    onLoad(peerId)
+      .then((next) => {
+        if (!cancelled) setInfo(next);
+      })
+      .catch((err: any) => {
+        if (!cancelled)
+          setError(err?.message ?? "Could not compute the safety number.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [peerId, trust]);
+
+  async function toggleVerified() {
+    if (!info) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onSetVerified(
+        peerId,
+        trust === "verified" ? null : info.keyVersion,
+      );
+    } catch (err: any) {
+      setError(err?.message ?? "Could not update verification.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div
+      className="space-y-2 text-[11px] text-slate-500"
+      onClick={(ev) => ev.stopPropagation()}
+      data-testid="safety-number-panel"
+    >
+      {trust === "changed" ? (
+        <div className="rounded-lg border border-red-200 bg-red-50/80 px-3 py-2 text-red-700">
+          This member has a new identity key. Compare safety numbers again
+          before trusting it.
+        </div>
+      ) : null}
+      {info ? (
+        <>
+          <div className="uppercase tracking-wide text-[10px] text-slate-400">
+            Safety number
+          </div>
+          <div
+            className="font-mono text-xs text-slate-700 tracking-wider"
+            data-testid="safety-number"
+          >
+            {info.digits}
+          </div>
+          <p>
+            Compare this with the number shown on their device, in person or
+            over a channel you trust.
+          </p>
+          <button
+            type="button"
+            className="text-indigo-600 hover:underline"
+            onClick={() => setShowPayload((prev) => !prev)}
+          >
+            {showPayload ? "Hide QR payload" : "Show QR payload"}
+          </button>
+          {showPayload ? (
+            <div
+              className="font-mono break-all rounded bg-slate-100 px-2 py-1"
+              data-testid="safety-number-qr-payload"
+            >
+              {info.qrPayload}
+            </div>
+          ) : null}
+          <div>
+            <button
+              type="button"
+              className="btn-secondary text-xs"
+              disabled={busy}
+              onClick={toggleVerified}
+              data-testid="verify-member-button"
+            >
+              {trust === "verified" ? "Clear verification" : "Mark as verified"}
+            </button>
+          </div>
+        </>
+      ) : null}
+      {error ? <div className="text-red-600">{error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from "react";
+import { MagnifyingGlassIcon, XMarkIcon } from "@heroicons/react/24/solid";
+
+export type SearchScope = "room" | "all";
+
+export type MessageSearchResult = {
+  id: string;
+  roomId: string;
+  senderId: string;
+  sentAt: string;
+  /** Excerpt around the match; `match` parts are highlighted. */
+  snippet: { text: string; match: boolean }[];
+};
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+export function SearchPanel({
+  rooms,
+  activeRoomId,
+  onSearch,
+  onSelectResult,
+  onClose,
+}: {
+  rooms: { id: string; name: string }[];
+  activeRoomId: string | null;
+  onSearch: (
+    query: string,
+    roomId: string | null,
+  ) => Promise<MessageSearchResult[]>;
+  onSelectResult: (result: MessageSearchResult) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [scope, setScope] = useState<SearchScope>(
+    activeRoomId ? "room" : "all",
+  );
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const roomNames = new Map(rooms.map((room) => [room.id, room.name]));
+  const roomId = scope === "room" ? activeRoomId : null;
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setSearching(true);
+      onSearch(query, roomId)
+        .then((next) => {
+          if (cancelled) return;
+          setResults(next);
+          setError(null);
+        })
+        .catch((err: any) => {
+          if (!cancelled) setError(err?.message ?? "Search failed.");
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, roomId]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <button
+        type="button"
+        className="flex-1 bg-slate-950/40"
+        onClick={onClose}
+        aria-label="Close search"
+      />
+      <div
+        className="w-full max-w-md bg-white dark:bg-slate-900 shadow-2xl border-l border-slate-200 dark:border-slate-800 flex flex-col"
+        data-testid="search-panel"
+      >
+        <div className="p-4 space-y-3 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Search messages</h2>
+            <button
+              type="button"
+              className="btn-secondary-sm h-9 w-9 rounded-full"
+              onClick={onClose}
+              aria-label="Close search"
+            >
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+          </div>
+          <div className="relative">
+            <MagnifyingGlassIcon className="h-4 w-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              ref={inputRef}
+              className="input h-11 pl-9"
+              placeholder="Search decrypted messages"
+              value={query}
+              onChange={(ev) => setQuery(ev.target.value)}
+              onKeyDown={(ev) => {
+                if (ev.key === "Escape") onClose();
+              }}
+              data-testid="search-input"
+            />
+          </div>
+          <div className="flex gap-2 text-xs">
+            <button
+              type="button"
+              className={scope === "room" ? "btn-sm" : "btn-secondary-sm"}
+              disabled={!activeRoomId}
+              onClick={() => setScope("room")}
+              data-testid="search-scope-room"
+            >
+              This room
+            </button>
+            <button
+              type="button"
+              className={scope === "all" ? "btn-sm" : "btn-secondary-sm"}
+              onClick={() => setScope("all")}
+              data-testid="search-scope-all"
+            >
+              All rooms
+            </button>
+          </div>
+          <p className="text-xs text-slate-400">
+            Search runs on this device only, over messages already decrypted.
+          </p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4">
+          {error ? (
+            <div className="text-sm text-red-600">{error}</div>
+          ) : query.trim() && !searching && results.length === 0 ? (
+            <div className="text-sm text-slate-500">No matching messages.</div>
+          ) : (
+            <ul className="space-y-2" data-testid="search-results">
+              {results.map((result) => (
+                <li key={result.id}>
+                  <button
+                    type="button"
+                    className="w-full text-left rounded-lg border border-slate-200 dark:border-slate-700 px-3 py-2 hover:border-blue-300 hover:bg-blue-50/40 dark:hover:bg-blue-900/30"
+                    onClick={() => onSelectResult(result)}
+                    data-testid="search-result"
+                  >
+                    <div className="flex items-center justify-between gap-2 text-xs text-slate-400">
+                      <span className="truncate">
+                        {roomNames.get(result.roomId) ?? "Unknown room"}
+                      </span>
+                      <span className="whitespace-nowrap">
+                        {new Date(result.sentAt).toLocaleString(undefined, {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </span>
+                    </div>
+                    <p className="text-sm text-slate-700 dark:text-slate-200 break-words">
+                      {result.snippet.map((part, i) =>
+                        part.match ? (
+                          <mark
+                            key={i}
+                            className="rounded bg-amber-200/80 px-0.5 text-slate-900"
+                          >
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={i}>{part.text}</span>
+                        ),
+                      )}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,46 @@
 import { useState } from "react";
+import type { KdfPhase } from "@crypto/password";
 
 type VaultScreenProps = {
   hasVault: boolean;
+  hasPassword: boolean;
+  hasPasskey: boolean;
+  hasRecovery: boolean;
+  passkeySupported: boolean;
   onCreateVault: (passphrase: string) => Promise<void>;
   onUnlockVault: (passphrase: string) => Promise<void>;
+  onCreateWithPasskey: () => Promise<void>;
+  onUnlockWithPasskey: () => Promise<void>;
+  onRecover: (code: string, newPassphrase: string) => Promise<void>;
+  onCancel?: () => void;
+  kdfPhase?: KdfPhase | null;
   onSignOut: () => void | Promise<void>;
 };
 
 export default function VaultScreen({
   hasVault,
+  hasPassword,
+  hasPasskey,
+  hasRecovery,
+  passkeySupported,
   onCreateVault,
   onUnlockVault,
+  onCreateWithPasskey,
+  onUnlockWithPasskey,
+  onRecover,
+  onCancel,
+  kdfPhase,
   onSignOut,
 }: VaultScreenProps) {
   const [passphrase, setPassphrase] = useState("");
   const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState<
+    "passphrase" | "passkey" | "recovery" | null
+  >(null);
+  const [recovering, setRecovering] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const loading = busy !== null;
 
   async function handleSubmit(action: (passphrase: string) => Promise<void>) {
     setError(null);
@@ -23,17 +48,64 @@ export default function VaultScreen({
       setError("Passphrase required.");
       return;
     }
-    setLoading(true);
+    setBusy("passphrase");
     try {
       await action(passphrase);
       setPassphrase("");
     } catch (err: any) {
+      // Cancelled by the user; keep the passphrase so they can retry.
+      if (err?.name === "AbortError") return;
       setError(err?.message ?? "Vault operation failed.");
     } finally {
-      setLoading(false);
+      setBusy(null);
     }
   }
 
+  async function handlePasskey(action: () => Promise<void>) {
+    setError(null);
+    setBusy("passkey");
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err?.message ?? "Passkey operation failed.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleRecover() {
+    setError(null);
+    if (!recoveryCode) {
+      setError("Recovery code required.");
+      return;
+    }
+    if (!passphrase) {
+      setError("Choose a new passphrase.");
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError("New passphrases do not match.");
+      return;
+    }
+    setBusy("recovery");
+    try {
+      await onRecover(recoveryCode, passphrase);
+      setRecoveryCode("");
+      setPassphrase("");
+      setConfirmPassphrase("");
+    } catch (err: any) {
+      if (err?.name === "AbortError") return;
+      setError(err?.message ?? "Recovery failed.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const deriving = kdfPhase === "queued" || kdfPhase === "deriving";
+  // A vault protected only by passkeys has no passphrase to enter.
+  const showPassphrase = !hasVault || hasPassword;
+  const showPasskey = passkeySupported && (!hasVault || hasPasskey);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-100 via-white to-slate-50 text-slate-900">
       <div className="mx-auto flex min-h-screen w-full items-center justify-center px-4 sm:px-6 py-12">
@@ -45,14 +117,18 @@ export default function VaultScreen({
                   className="text-2xl font-semibold text-slate-900"
                   data-testid="vault-heading"
                 >
-                  {hasVault
-                    ? "Unlock your chat vault"
-                    : "Create your encrypted vault"}
+                  {recovering
+                    ? "Recover your chat vault"
+                    : hasVault
+                      ? "Unlock your chat vault"
+                      : "Create your encrypted vault"}
                 </h1>
                 <p className="text-sm text-slate-500">
-                  {hasVault
-                    ? "Enter the passphrase you used to secure this device."
-                    : "Choose a passphrase. We use it locally to unwrap your data keys."}
+                  {recovering
+                    ? "Enter your recovery code and choose a new passphrase."
+                    : hasVault
+                      ? "Enter the passphrase you used to secure this device."
+                      : "Choose a passphrase or passkey. We use it locally to unwrap your data keys."}
                 </p>
               </div>
               <button
@@ -69,36 +145,148 @@ export default function VaultScreen({
                 {error}
               </div>
             ) : null}
-            <form
-              className="flex flex-col gap-3"
-              onSubmit={(e) => {
-                e.preventDefault();
-                handleSubmit(hasVault ? onUnlockVault : onCreateVault);
-              }}
-            >
-              <input
-                className="input h-12"
-                placeholder={hasVault ? "Passphrase" : "Choose a passphrase"}
-                type="password"
-                value={passphrase}
-                onChange={(ev) => setPassphrase(ev.target.value)}
-                data-testid="vault-passphrase-input"
-              />
+            {recovering ? (
+              <form
+                className="flex flex-col gap-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleRecover();
+                }}
+              >
+                <input
+                  className="input h-12 font-mono"
+                  placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                  autoComplete="off"
+                  value={recoveryCode}
+                  onChange={(ev) => setRecoveryCode(ev.target.value)}
+                  data-testid="recovery-code-input"
+                />
+                <input
+                  className="input h-12"
+                  placeholder="New passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(ev) => setPassphrase(ev.target.value)}
+                  data-testid="recovery-passphrase-input"
+                />
+                <input
+                  className="input h-12"
+                  placeholder="Confirm new passphrase"
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(ev) => setConfirmPassphrase(ev.target.value)}
+                  data-testid="recovery-confirm-input"
+                />
+                <button
+                  type="submit"
+                  className="btn"
+                  disabled={loading}
+                  data-testid="recovery-submit-button"
+                >
+                  {busy === "recovery"
+                    ? deriving
+                      ? "Deriving key…"
+                      : "Recovering…"
+                    : "Recover Vault"}
+                </button>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  disabled={loading}
+                  onClick={() => {
+                    setRecovering(false);
+                    setError(null);
+                  }}
+                >
+                  Back
+                </button>
+              </form>
+            ) : null}
+            {!recovering && showPassphrase ? (
+              <form
+                className="flex flex-col gap-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSubmit(hasVault ? onUnlockVault : onCreateVault);
+                }}
+              >
+                <input
+                  className="input h-12"
+                  placeholder={hasVault ? "Passphrase" : "Choose a passphrase"}
+                  type="password"
+                  value={passphrase}
+                  onChange={(ev) => setPassphrase(ev.target.value)}
+                  data-testid="vault-passphrase-input"
+                />
+                <button
+                  type="submit"
+                  className="btn"
+                  disabled={loading}
+                  data-testid="vault-submit-button"
+                >
+                  {busy === "passphrase"
+                    ? deriving
+                      ? "Deriving key…"
+                      : hasVault
+                        ? "Unlocking…"
+                        : "Creating…"
+                    : hasVault
+                      ? "Unlock Vault"
+                      : "Create Vault"}
+                </button>
+                {busy === "passphrase" && onCancel ? (
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={() => onCancel()}
+                    data-testid="vault-cancel-button"
+                  >
+                    Cancel
+                  </button>
+                ) : null}
+              </form>
+            ) : null}
+            {!recovering && showPasskey ? (
+              <div className="flex flex-col gap-3 mt-3">
+                {showPassphrase ? (
+                  <div className="text-center text-xs uppercase tracking-wide text-slate-400">
+                    or
+                  </div>
+                ) : null}
+                <button
+                  type="button"
+                  className="btn-secondary h-12"
+                  disabled={loading}
+                  onClick={() =>
+                    handlePasskey(
+                      hasVault ? onUnlockWithPasskey : onCreateWithPasskey,
+                    )
+                  }
+                  data-testid="vault-passkey-button"
+                >
+                  {busy === "passkey"
+                    ? "Waiting for passkey…"
+                    : hasVault
+                      ? "Unlock with passkey"
+                      : "Create with passkey"}
+                </button>
+              </div>
+            ) : null}
+            {!recovering && hasVault && hasRecovery ? (
               <button
-                type="submit"
-                className="btn"
+                type="button"
+                className="mt-4 text-sm text-slate-500 underline"
                 disabled={loading}
-                data-testid="vault-submit-button"
+                onClick={() => {
+                  setRecovering(true);
+                  setError(null);
+                  setPassphrase("");
+                }}
+                data-testid="vault-recovery-link"
               >
-                {loading
-                  ? hasVault
-                    ? "Unlocking…"
-                    : "Creating…"
-                  : hasVault
-                    ? "Unlock Vault"
-                    : "Create Vault"}
+                Forgot your passphrase? Use a recovery code
               </button>
-            </form>
+            ) : null}
           </div>
         </div>
       </div>
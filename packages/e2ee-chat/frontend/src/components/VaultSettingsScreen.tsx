@@ -0,0 +1,302 @@
+import { useState } from "react";
+
+type Passkey = {
+  id: string;
+  label: string;
+  createdAt: string;
+};
+
+type VaultSettingsScreenProps = {
+  hasPassword: boolean;
+  hasRecovery: boolean;
+  passkeys: Passkey[];
+  passkeySupported: boolean;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onSetPassphrase: (next: string) => Promise<void>;
+  onAddPasskey: () => Promise<void>;
+  onRegenerateRecoveryCode: () => Promise<void>;
+  identityKeyVersion: number;
+  onRotateIdentityKey: () => Promise<void>;
+  strictVerification: boolean;
+  onStrictVerificationChange: (strict: boolean) => void;
+  onClose: () => void;
+};
+
+export default function VaultSettingsScreen({
+  hasPassword,
+  hasRecovery,
+  passkeys,
+  passkeySupported,
+  onChangePassphrase,
+  onSetPassphrase,
+  onAddPasskey,
+  onRegenerateRecoveryCode,
+  identityKeyVersion,
+  onRotateIdentityKey,
+  strictVerification,
+  onStrictVerificationChange,
+  onClose,
+}: VaultSettingsScreenProps) {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [busy, setBusy] = useState<
+    "passphrase" | "passkey" | "recovery" | "identity" | null
+  >(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function run(
+    kind: "passphrase" | "passkey" | "recovery" | "identity",
+    action: () => Promise<void>,
+    success: string,
+  ) {
+    setError(null);
+    setNotice(null);
+    setBusy(kind);
+    try {
+      await action();
+      setNotice(success);
+    } catch (err: any) {
+      setError(err?.message ?? "Vault update failed.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function handlePassphraseSubmit() {
+    if (hasPassword && !current) {
+      setError("Current passphrase required.");
+      return;
+    }
+    if (!next) {
+      setError("New passphrase required.");
+      return;
+    }
+    if (next !== confirm) {
+      setError("New passphrases do not match.");
+      return;
+    }
+    void run(
+      "passphrase",
+      async () => {
+        if (hasPassword) await onChangePassphrase(current, next);
+        else await onSetPassphrase(next);
+        setCurrent("");
+        setNext("");
+        setConfirm("");
+      },
+      hasPassword ? "Passphrase changed." : "Passphrase set.",
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 via-white to-slate-50 text-slate-900">
+      <div className="mx-auto flex min-h-screen w-full items-center justify-center px-4 sm:px-6 py-12">
+        <div className="w-full max-w-3xl">
+          <div className="card px-8 py-10 space-y-8">
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+              <div className="space-y-1.5">
+                <h1
+                  className="text-2xl font-semibold text-slate-900"
+                  data-testid="vault-settings-heading"
+                >
+                  Vault settings
+                </h1>
+                <p className="text-sm text-slate-500">
+                  Changing how the vault is unlocked re-wraps its key; your
+                  rooms and messages are not re-encrypted.
+                </p>
+              </div>
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={onClose}
+                data-testid="vault-settings-close-button"
+              >
+                Back to chat
+              </button>
+            </div>
+            {error ? (
+              <div className="rounded-lg border border-red-200 bg-red-50/80 px-4 py-3 text-sm text-red-700">
+                {error}
+              </div>
+            ) : null}
+            {notice ? (
+              <div
+                className="rounded-lg border border-emerald-200 bg-emerald-50/80 px-4 py-3 text-sm text-emerald-700"
+                data-testid="vault-settings-notice"
+              >
+                {notice}
+              </div>
+            ) : null}
+            <section className="space-y-3">
+              <h2 className="text-lg font-semibold">
+                {hasPassword ? "Change passphrase" : "Set a passphrase"}
+              </h2>
+              <form
+                className="flex flex-col gap-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handlePassphraseSubmit();
+                }}
+              >
+                {hasPassword ? (
+                  <input
+                    className="input h-12"
+                    placeholder="Current passphrase"
+                    type="password"
+                    value={current}
+                    onChange={(ev) => setCurrent(ev.target.value)}
+                    data-testid="current-passphrase-input"
+                  />
+                ) : null}
+                <input
+                  className="input h-12"
+                  placeholder="New passphrase"
+                  type="password"
+                  value={next}
+                  onChange={(ev) => setNext(ev.target.value)}
+                  data-testid="new-passphrase-input"
+                />
+                <input
+                  className="input h-12"
+                  placeholder="Confirm new passphrase"
+                  type="password"
+                  value={confirm}
+                  onChange={(ev) => setConfirm(ev.target.value)}
+                  data-testid="confirm-passphrase-input"
+                />
+                <button
+                  type="submit"
+                  className="btn"
+                  disabled={busy !== null}
+                  data-testid="change-passphrase-button"
+                >
+                  {busy === "passphrase"
+                    ? "Updating…"
+                    : hasPassword
+                      ? "Change passphrase"
+                      : "Set passphrase"}
+                </button>
+              </form>
+            </section>
+            {passkeySupported || passkeys.length > 0 ? (
+              <section className="space-y-3">
+                <h2 className="text-lg font-semibold">Passkeys</h2>
+                {passkeys.length > 0 ? (
+                  <ul
+                    className="divide-y divide-slate-200 rounded-lg border border-slate-200"
+                    data-testid="passkey-list"
+                  >
+                    {passkeys.map((passkey) => (
+                      <li
+                        key={passkey.id}
+                        className="flex items-center justify-between px-4 py-3 text-sm"
+                      >
+                        <span className="font-medium">{passkey.label}</span>
+                        <span className="text-slate-400">
+                          {passkey.createdAt
+                            ? new Date(passkey.createdAt).toLocaleDateString()
+                            : ""}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-slate-500">
+                    No passkeys registered for this vault.
+                  </p>
+                )}
+                {passkeySupported ? (
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    disabled={busy !== null}
+                    onClick={() =>
+                      run("passkey", onAddPasskey, "Passkey added.")
+                    }
+                    data-testid="add-passkey-button"
+                  >
+                    {busy === "passkey"
+                      ? "Waiting for passkey…"
+                      : "Add passkey"}
+                  </button>
+                ) : null}
+              </section>
+            ) : null}
+            <section className="space-y-3">
+              <h2 className="text-lg font-semibold">Recovery code</h2>
+              <p className="text-sm text-slate-500">
+                {hasRecovery
+                  ? "Generating a new code invalidates the previous one."
+                  : "This vault has no recovery code. Without one, a forgotten passphrase means losing access to your rooms."}
+              </p>
+              <button
+                type="button"
+                className="btn-secondary"
+                disabled={busy !== null}
+                onClick={() =>
+                  run(
+                    "recovery",
+                    onRegenerateRecoveryCode,
+                    "New recovery code issued.",
+                  )
+                }
+                data-testid="regenerate-recovery-code-button"
+              >
+                {busy === "recovery"
+                  ? "Generating…"
+                  : hasRecovery
+                    ? "Generate new recovery code"
+                    : "Create recovery code"}
+              </button>
+            </section>
+            <section className="space-y-3">
+              <h2 className="text-lg font-semibold">Identity key</h2>
+              <p className="text-sm text-slate-500">
+                Version{" "}
+                <span data-testid="identity-key-version">
+                  {identityKeyVersion}
+                </span>
+                . Rotating publishes a new key for future invites and re-wraps
+                your room keys to it; older keys are kept so nothing becomes
+                unreadable.
+              </p>
+              <button
+                type="button"
+                className="btn-secondary"
+                disabled={busy !== null}
+                onClick={() =>
+                  run("identity", onRotateIdentityKey, "Identity key rotated.")
+                }
+                data-testid="rotate-identity-key-button"
+              >
+                {busy === "identity" ? "Rotating…" : "Rotate identity key"}
+              </button>
+            </section>
+            <section className="space-y-3">
+              <h2 className="text-lg font-semibold">Contact verification</h2>
+              <p className="text-sm text-slate-500">
+                Compare safety numbers from a member&apos;s entry in the room
+                member list. With strict mode on, room keys are only shared with
+                members whose current key you verified on this device.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={strictVerification}
+                  onChange={(ev) =>
+                    onStrictVerificationChange(ev.target.checked)
+                  }
+                  data-testid="strict-verification-checkbox"
+                />
+                Only invite verified contacts
+              </label>
+            </section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
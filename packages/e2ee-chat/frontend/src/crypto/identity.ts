@@ -1,21 +1,59 @@
 import type { CryptoProvider } from "@crypto/interface";
 import { bytesToBase64, base64ToBytes } from "@crypto/interface";
-import type { AbstractPowerSyncDatabase } from "@powersync/web";
+import type { AbstractPowerSyncDatabase, Transaction } from "@powersync/web";
 import sodium from "libsodium-wrappers-sumo";
+import { saveRoomKeyWrap, wrapRoomKey, type RoomEpochKeys } from "./roomKeys";
 
 const IDENTITY_KEY_AAD = "identity-key-v1";
-const PRIVATE_KEY_ID_FORMAT = (userId: string) => `identity:${userId}`;
+const SIGNING_SEED_CONTEXT = "chat-identity-signing-v1";
+// Version 1 keeps its original id so existing rows are not duplicated.
+const PRIVATE_KEY_ID_FORMAT = (userId: string, version: number) =>
+  version === 1 ? `identity:${userId}` : `identity:${userId}:${version}`;
+
+// Matches the `chat_user` bucket priority in the sync rules.
+const USER_BUCKET_PRIORITY = 1;
+
+// Either the database or an open write transaction.
+type IdentityDb = Pick<Transaction, "getAll" | "execute">;
 
 export type IdentityKeyPair = {
+  version: number;
   publicKey: Uint8Array;
   secretKey: Uint8Array;
   publicKeyB64: string;
   secretKeyB64: string;
+  /** Ed25519 keys derived from the X25519 secret, so they need no storage of their own. */
+  signingPublicKey: Uint8Array;
+  signingSecretKey: Uint8Array;
+  signingPublicKeyB64: string;
+};
+
+/**
+ * - `locked`: the vault is not unlocked yet, or the user bucket has not finished syncing.
+ * - `no-key`: synced, and the user has never created an identity key.
+ * - `decrypt-failed`: a key exists but the vault key cannot open it.
+ * - `ready`: the current keypair is available, along with every older version that
+ *   still decrypts (`keyPairs`, keyed by version).
+ */
+export type IdentityState =
+  | { status: "locked" }
+  | { status: "no-key" }
+  | { status: "decrypt-failed"; error: unknown }
+  | {
+      status: "ready";
+      keyPair: IdentityKeyPair;
+      keyPairs: Map<number, IdentityKeyPair>;
+    };
+
+export type PeerPublicKey = {
+  version: number;
+  publicKey: Uint8Array;
 };
 
 type IdentityPrivateRow = {
   id: string;
   user_id: string;
+  key_version: number | null;
   alg: string;
   aad?: string | null;
   nonce_b64: string;
@@ -28,22 +66,38 @@ type IdentityPublicRow = {
   user_id: string;
   key_version: number;
   public_key_b64: string;
+  signing_public_key_b64: string | null;
 };
 
-async function fetchPrivateRow(
-  db: AbstractPowerSyncDatabase,
+async function fetchPrivateRows(
+  db: IdentityDb,
   userId: string,
-): Promise<IdentityPrivateRow | null> {
+): Promise<IdentityPrivateRow[]> {
   const rows = await db.getAll<IdentityPrivateRow>(
-    "SELECT * FROM chat_identity_private_keys WHERE user_id = ? LIMIT 1",
+    "SELECT * FROM chat_identity_private_keys WHERE user_id = ? ORDER BY COALESCE(key_version, 1) DESC",
     [userId],
   );
-  return rows?.[0] ?? null;
+  return rows ?? [];
 }
 
-async function upsertPrivateRow(
-  db: AbstractPowerSyncDatabase,
+async function latestKeyVersion(db: IdentityDb, userId: string) {
+  const rows = await db.getAll<{ version: number | null }>(
+    `
+    SELECT MAX(version) AS version FROM (
+      SELECT COALESCE(key_version, 1) AS version FROM chat_identity_private_keys WHERE user_id = ?
+      UNION ALL
+      SELECT key_version AS version FROM chat_identity_public_keys WHERE user_id = ?
+    )
+    `.trim(),
+    [userId, userId],
+  );
+  return Number(rows?.[0]?.version ?? 0);
+}
+
+async function insertPrivateRow(
+  db: IdentityDb,
   userId: string,
+  version: number,
   env: {
     alg: string;
     aad?: string | null;
@@ -52,17 +106,18 @@ async function upsertPrivateRow(
     kdf_salt_b64: string;
   },
 ) {
-  const id = PRIVATE_KEY_ID_FORMAT(userId);
+  const id = PRIVATE_KEY_ID_FORMAT(userId, version);
   const now = new Date().toISOString();
   await db.execute("DELETE FROM chat_identity_private_keys WHERE id = ?", [id]);
   await db.execute(
     `
-    INSERT INTO chat_identity_private_keys (id, user_id, alg, aad, nonce_b64, cipher_b64, kdf_salt_b64, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO chat_identity_private_keys (id, user_id, key_version, alg, aad, nonce_b64, cipher_b64, kdf_salt_b64, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `.trim(),
     [
       id,
       userId,
+      version,
       env.alg,
       env.aad ?? null,
       env.nonce_b64,
@@ -74,109 +129,224 @@ async function upsertPrivateRow(
 }
 
 async function upsertPublicRow(
-  db: AbstractPowerSyncDatabase,
+  db: IdentityDb,
   userId: string,
-  publicKeyB64: string,
-  version = 1,
+  pair: IdentityKeyPair,
 ) {
-  const id = `${userId}:${version}`;
+  const id = `${userId}:${pair.version}`;
   const now = new Date().toISOString();
   await db.execute("DELETE FROM chat_identity_public_keys WHERE id = ?", [id]);
   await db.execute(
     `
-    INSERT INTO chat_identity_public_keys (id, user_id, key_version, public_key_b64, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO chat_identity_public_keys (id, user_id, key_version, public_key_b64, signing_public_key_b64, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
     `.trim(),
-    [id, userId, version, publicKeyB64, now, now],
+    [
+      id,
+      userId,
+      pair.version,
+      pair.publicKeyB64,
+      pair.signingPublicKeyB64,
+      now,
+      now,
+    ],
   );
 }
 
+function toKeyPair(version: number, secretKey: Uint8Array): IdentityKeyPair {
+  const publicKey = sodium.crypto_scalarmult_base(secretKey);
+  const signing = sodium.crypto_sign_seed_keypair(
+    sodium.crypto_generichash(
+      32,
+      secretKey,
+      sodium.from_string(SIGNING_SEED_CONTEXT),
+    ),
+  );
+  return {
+    version,
+    publicKey,
+    secretKey,
+    publicKeyB64: bytesToBase64(publicKey),
+    secretKeyB64: bytesToBase64(secretKey),
+    signingPublicKey: signing.publicKey,
+    signingSecretKey: signing.privateKey,
+    signingPublicKeyB64: bytesToBase64(signing.publicKey),
+  };
+}
+
 async function decryptPrivateKey(
   row: IdentityPrivateRow,
   kek: CryptoProvider,
-): Promise<Uint8Array | null> {
-  try {
-    const plain = await kek.decrypt(
-      {
-        header: {
-          v: 1,
-          alg: row.alg,
-          aad: row.aad ?? undefined,
-          kdf: { saltB64: row.kdf_salt_b64 ?? "" },
-        },
-        nB64: row.nonce_b64,
-        cB64: row.cipher_b64,
+): Promise<Uint8Array> {
+  const plain = await kek.decrypt(
+    {
+      header: {
+        v: 1,
+        alg: row.alg,
+        aad: row.aad ?? undefined,
+        kdf: { saltB64: row.kdf_salt_b64 ?? "" },
       },
-      row.aad ?? undefined,
-    );
-    return plain;
-  } catch (err) {
-    console.warn(
-      "Failed to decrypt identity private key with current vault key",
-      err,
-    );
-    return null;
-  }
+      nB64: row.nonce_b64,
+      cB64: row.cipher_b64,
+    },
+    row.aad ?? undefined,
+  );
+  return new Uint8Array(plain);
 }
 
-export async function ensureIdentityKeyPair(
+/**
+ * Load the user's identity keypairs once their personal bucket has synced. A missing
+ * row is only reported as `no-key` after that first sync; before it the state stays
+ * `locked`, so a slow connection is never mistaken for a brand-new user.
+ */
+export async function loadIdentityState(
   db: AbstractPowerSyncDatabase,
   userId: string,
   kek: CryptoProvider,
-): Promise<IdentityKeyPair> {
+  signal?: AbortSignal,
+): Promise<IdentityState> {
+  await db.waitForFirstSync({ signal, priority: USER_BUCKET_PRIORITY });
+  if (signal?.aborted) return { status: "locked" };
   await sodium.ready;
-  const existing = await fetchPrivateRow(db, userId);
-  if (existing) {
-    const secret = await decryptPrivateKey(existing, kek);
-    if (secret) {
-      const secretBytes = new Uint8Array(secret);
-      const publicRow = await db.getAll<IdentityPublicRow>(
-        "SELECT * FROM chat_identity_public_keys WHERE user_id = ? ORDER BY key_version DESC LIMIT 1",
-        [userId],
+  const rows = await fetchPrivateRows(db, userId);
+  if (!rows.length) return { status: "no-key" };
+
+  const keyPairs = new Map<number, IdentityKeyPair>();
+  for (const row of rows) {
+    const version = Number(row.key_version ?? 1);
+    let secretBytes: Uint8Array;
+    try {
+      secretBytes = await decryptPrivateKey(row, kek);
+    } catch (error) {
+      console.warn(
+        `Failed to decrypt identity private key v${version} with current vault key`,
+        error,
       );
-      const publicKeyB64 =
-        publicRow?.[0]?.public_key_b64 ??
-        bytesToBase64(sodium.crypto_scalarmult_base(secretBytes));
-      return {
-        publicKey: base64ToBytes(publicKeyB64),
-        secretKey: secretBytes,
-        publicKeyB64,
-        secretKeyB64: bytesToBase64(secretBytes),
-      };
+      // Only the current key is required; older ones just open older room-key wraps.
+      if (!keyPairs.size) return { status: "decrypt-failed", error };
+      continue;
     }
-    // fallthrough to regenerate if decrypt failed
+    keyPairs.set(version, toKeyPair(version, secretBytes));
+  }
+  const keyPair = keyPairs.get(Number(rows[0].key_version ?? 1))!;
+  await publishMissingSigningKey(db, userId, keyPair);
+  return { status: "ready", keyPair, keyPairs };
+}
+
+// Keys created before message signing have no published signing key yet.
+async function publishMissingSigningKey(
+  db: IdentityDb,
+  userId: string,
+  keyPair: IdentityKeyPair,
+) {
+  const rows = await db.getAll<IdentityPublicRow>(
+    "SELECT * FROM chat_identity_public_keys WHERE user_id = ? AND key_version = ? LIMIT 1",
+    [userId, keyPair.version],
+  );
+  const row = rows?.[0];
+  if (
+    row?.public_key_b64 === keyPair.publicKeyB64 &&
+    row.signing_public_key_b64 === keyPair.signingPublicKeyB64
+  ) {
+    return;
   }
+  await upsertPublicRow(db, userId, keyPair);
+}
 
-  const keyPair = sodium.crypto_kx_keypair();
-  const publicKeyB64 = bytesToBase64(keyPair.publicKey);
-  const secretKeyB64 = bytesToBase64(keyPair.privateKey);
-  const envelope = await kek.encrypt(keyPair.privateKey, IDENTITY_KEY_AAD);
-  await upsertPrivateRow(db, userId, {
+async function writeKeyPair(
+  db: IdentityDb,
+  userId: string,
+  kek: CryptoProvider,
+  version: number,
+): Promise<IdentityKeyPair> {
+  const keyPair = toKeyPair(version, sodium.crypto_kx_keypair().privateKey);
+  const envelope = await kek.encrypt(keyPair.secretKey, IDENTITY_KEY_AAD);
+  await insertPrivateRow(db, userId, version, {
     alg: envelope.header.alg,
     aad: envelope.header.aad ?? IDENTITY_KEY_AAD,
     nonce_b64: envelope.nB64,
     cipher_b64: envelope.cB64,
     kdf_salt_b64: envelope.header.kdf.saltB64 ?? "",
   });
-  await upsertPublicRow(db, userId, publicKeyB64, 1);
+  await upsertPublicRow(db, userId, keyPair);
+  return keyPair;
+}
 
-  return {
-    publicKey: keyPair.publicKey,
-    secretKey: keyPair.privateKey,
-    publicKeyB64,
-    secretKeyB64,
-  };
+/**
+ * Generate and publish a new identity keypair. Refuses to run when the user already has
+ * a key unless `replace` is set; a replacement is written as the next version, but room
+ * keys wrapped to an undecryptable old key stay unreadable.
+ */
+export async function createIdentityKeyPair(
+  db: AbstractPowerSyncDatabase,
+  userId: string,
+  kek: CryptoProvider,
+  options: { replace?: boolean } = {},
+): Promise<IdentityKeyPair> {
+  await sodium.ready;
+  const latest = await latestKeyVersion(db, userId);
+  if (!options.replace && latest > 0) {
+    throw new Error("An identity key already exists for this user.");
+  }
+  return writeKeyPair(db, userId, kek, latest + 1);
+}
+
+/**
+ * Publish identity key version N+1 and re-wrap every room key epoch to it. Older private
+ * keys stay stored, so wraps that were not re-wrapped here still open.
+ */
+export async function rotateIdentityKey(
+  db: AbstractPowerSyncDatabase,
+  userId: string,
+  kek: CryptoProvider,
+  roomKeys: Map<string, RoomEpochKeys>,
+): Promise<IdentityKeyPair> {
+  await sodium.ready;
+  return db.writeTransaction(async (tx) => {
+    const version = (await latestKeyVersion(tx, userId)) + 1;
+    const next = await writeKeyPair(tx, userId, kek, version);
+    const now = new Date().toISOString();
+    for (const [roomId, epochs] of roomKeys) {
+      const ctx = { roomId, senderId: userId, recipientId: userId };
+      for (const [epoch, roomKey] of epochs) {
+        const envelope = await wrapRoomKey(
+          roomKey,
+          next.secretKey,
+          next.publicKey,
+          ctx,
+        );
+        await saveRoomKeyWrap(tx, ctx, envelope, {
+          epoch,
+          senderKeyVersion: version,
+          recipientKeyVersion: version,
+          createdAt: now,
+        });
+      }
+    }
+    return next;
+  });
 }
 
+/** A user's published public key; the latest version unless one is requested. */
 export async function loadPeerPublicKey(
   db: AbstractPowerSyncDatabase,
   userId: string,
-): Promise<Uint8Array | null> {
-  const rows = await db.getAll<IdentityPublicRow>(
-    "SELECT * FROM chat_identity_public_keys WHERE user_id = ? ORDER BY key_version DESC LIMIT 1",
-    [userId],
-  );
+  version?: number,
+): Promise<PeerPublicKey | null> {
+  const rows =
+    version === undefined
+      ? await db.getAll<IdentityPublicRow>(
+          "SELECT * FROM chat_identity_public_keys WHERE user_id = ? ORDER BY key_version DESC LIMIT 1",
+          [userId],
+        )
+      : await db.getAll<IdentityPublicRow>(
+          "SELECT * FROM chat_identity_public_keys WHERE user_id = ? AND key_version = ? LIMIT 1",
+          [userId, version],
+        );
   const row = rows?.[0];
   if (!row) return null;
-  return base64ToBytes(row.public_key_b64);
+  return {
+    version: Number(row.key_version),
+    publicKey: base64ToBytes(row.public_key_b64),
+  };
 }
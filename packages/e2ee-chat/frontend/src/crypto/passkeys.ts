@@ -0,0 +1,83 @@
+import {
+  WebAuthnProvider,
+  type CredentialStore,
+  type StoredCredential,
+} from "@crypto/webauthn";
+import type { AbstractPowerSyncDatabase } from "@powersync/web";
+import {
+  listWrappedKeysLocal,
+  makeKeyId,
+  passkeyCredentialId,
+} from "../utils/keyring";
+
+/**
+ * Passkeys registered for a vault, read from their synced `chat_e2ee_keys` wraps so they
+ * survive cleared site data and show up on every device. A freshly registered credential
+ * is held in memory until its wrap row is written.
+ */
+export function createPasskeyStore(
+  db: AbstractPowerSyncDatabase,
+  userId: string,
+): CredentialStore {
+  const pending = new Map<string, StoredCredential>();
+  return {
+    async list() {
+      const rows = await listWrappedKeysLocal(db, userId, "webauthn");
+      const synced = rows.flatMap((row) => {
+        const id = passkeyCredentialId(row);
+        return id
+          ? [{ id, label: row.label ?? "Passkey", createdAt: row.created_at }]
+          : [];
+      });
+      const known = new Set(synced.map((cred) => cred.id));
+      return [
+        ...synced,
+        ...[...pending.values()].filter((cred) => !known.has(cred.id)),
+      ];
+    },
+    async add(_keyId, credential) {
+      pending.set(credential.id, credential);
+    },
+    async remove(_keyId, credentialId) {
+      pending.delete(credentialId);
+      await db.execute("DELETE FROM chat_e2ee_keys WHERE id = ?", [
+        makeKeyId(userId, "webauthn", credentialId),
+      ]);
+    },
+  };
+}
+
+export const passkeysSupported = () => WebAuthnProvider.isSupported();
+
+/** Session-mode provider so unlocking and unwrapping share a single passkey prompt. */
+export function createPasskeyProvider(
+  db: AbstractPowerSyncDatabase,
+  userId: string,
+): WebAuthnProvider {
+  return new WebAuthnProvider({
+    keyId: userId,
+    store: createPasskeyStore(db, userId),
+    session: true,
+  });
+}
+
+/**
+ * Register a new passkey and make it the one new wraps are keyed with. Authenticators
+ * without the PRF extension cannot protect the vault, so their credential is dropped again.
+ */
+export async function registerPasskey(
+  provider: WebAuthnProvider,
+  label: string,
+): Promise<StoredCredential> {
+  const credential = await provider.register("PowerSync chat", label);
+  try {
+    await provider.unlock(credential.id);
+  } catch (err) {
+    await provider.removeCredential(credential.id);
+    throw new Error(
+      "This passkey does not support the PRF extension needed to protect your vault.",
+    );
+  }
+  provider.selectCredential(credential.id);
+  return credential;
+}
@@ -0,0 +1,72 @@
+import { createDEKCrypto } from "@crypto/sqlite";
+import type { CryptoProvider } from "@crypto/interface";
+import sodium from "libsodium-wrappers-sumo";
+
+// Recovery codes are 160 random bits shown as 8 groups of 4 base32 characters.
+// That is far beyond brute-force range, so the wrap key is a plain keyed hash of
+// the code rather than a slow password KDF.
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const CODE_BYTES = 20;
+const CODE_CHARS = (CODE_BYTES * 8) / 5;
+const GROUP = 4;
+const RECOVERY_KEY_CONTEXT = "chat-vault-recovery-v1";
+
+// Characters users commonly type for their look-alikes in the alphabet.
+const CONFUSABLES: Record<string, string> = { "0": "O", "1": "I", "8": "B" };
+
+export async function generateRecoveryCode(): Promise<string> {
+  await sodium.ready;
+  return formatRecoveryCode(encodeBase32(sodium.randombytes_buf(CODE_BYTES)));
+}
+
+/** Canonical form of a typed code: upper-case, no separators; null if it cannot be a valid code. */
+export function normalizeRecoveryCode(input: string): string | null {
+  const chars = input
+    .toUpperCase()
+    .replace(/[\s-]/g, "")
+    .split("")
+    .map((c) => CONFUSABLES[c] ?? c)
+    .join("");
+  if (chars.length !== CODE_CHARS) return null;
+  for (const c of chars) if (!ALPHABET.includes(c)) return null;
+  return chars;
+}
+
+export function formatRecoveryCode(code: string): string {
+  const groups: string[] = [];
+  for (let i = 0; i < code.length; i += GROUP) {
+    groups.push(code.slice(i, i + GROUP));
+  }
+  return groups.join("-");
+}
+
+/** Provider that wraps the vault DEK under a key derived from the recovery code. */
+export async function createRecoveryCrypto(
+  code: string,
+): Promise<CryptoProvider> {
+  const normalized = normalizeRecoveryCode(code);
+  if (!normalized) throw new Error("That recovery code is not valid.");
+  await sodium.ready;
+  const key = sodium.crypto_generichash(
+    32,
+    sodium.from_string(normalized),
+    sodium.from_string(RECOVERY_KEY_CONTEXT),
+  );
+  return createDEKCrypto(key);
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let out = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += ALPHABET[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += ALPHABET[(buffer << (5 - bits)) & 31];
+  return out;
+}
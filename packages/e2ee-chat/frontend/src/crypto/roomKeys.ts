@@ -1,12 +1,75 @@
 import {
+  AuthenticationFailedError,
+  UnsupportedAlgorithmError,
   bytesToBase64,
-  base64ToBytes,
+  envelopeBytes,
   type CipherEnvelope,
+  type CryptoProvider,
 } from "@crypto/interface";
+import { MemoryKeyRing, createDEKCrypto } from "@crypto/sqlite";
+import type { Transaction } from "@powersync/web";
 import sodium from "libsodium-wrappers-sumo";
 
 const ALG = "xchacha20poly1305/x25519-wrap-v1";
 
+/**
+ * A room's keys by epoch. Removing a member starts a new epoch; new rows are encrypted
+ * with the newest one while older epochs keep history readable.
+ */
+export type RoomEpochKeys = Map<number, Uint8Array>;
+
+/** Key id of a room epoch, recorded as each envelope's `kid`. */
+export const roomKeyId = (roomId: string, epoch: number) =>
+  `room:${roomId}:epoch:${epoch}`;
+
+export function latestEpoch(keys: RoomEpochKeys): number {
+  return Math.max(0, ...keys.keys());
+}
+
+export function createRoomEpochCrypto(
+  roomId: string,
+  roomKey: Uint8Array,
+  epoch: number,
+): CryptoProvider {
+  return createDEKCrypto(roomKey, { kid: roomKeyId(roomId, epoch) });
+}
+
+/**
+ * Key ring for the room epochs held on this device, filled by `syncRoomKeyRing`. Rows
+ * written before key ids were recorded belong to epoch 1 of their room.
+ */
+export function createRoomKeyRing(): MemoryKeyRing {
+  return new MemoryKeyRing([], {
+    kidForRow: (row) => {
+      const roomId = row.bucket_id ?? row.room_id ?? row.id;
+      return roomId ? roomKeyId(roomId, 1) : null;
+    },
+  });
+}
+
+/**
+ * Add newly unwrapped epochs to the ring and drop ones no longer held. Each added key is
+ * announced with its room, so mirrors retry just the rows waiting on it.
+ */
+export function syncRoomKeyRing(
+  ring: MemoryKeyRing,
+  roomKeys: Map<string, RoomEpochKeys>,
+  previous: Map<string, RoomEpochKeys>,
+) {
+  for (const [roomId, epochs] of previous) {
+    for (const epoch of epochs.keys()) {
+      if (roomKeys.get(roomId)?.has(epoch)) continue;
+      ring.delete(roomKeyId(roomId, epoch));
+    }
+  }
+  for (const [roomId, epochs] of roomKeys) {
+    for (const [epoch, key] of epochs) {
+      if (ring.has(roomKeyId(roomId, epoch))) continue;
+      ring.add(createRoomEpochCrypto(roomId, key, epoch), { bucketId: roomId });
+    }
+  }
+}
+
 export type RoomKeyWrapContext = {
   roomId: string;
   senderId: string;
@@ -71,19 +134,66 @@ export async function unwrapRoomKey(
 ): Promise<Uint8Array> {
   await sodium.ready;
   if (!envelope.header.alg.startsWith("xchacha20poly1305/x25519-wrap")) {
-    throw new Error(
+    throw new UnsupportedAlgorithmError(
       `Unsupported room key wrapping algorithm: ${envelope.header.alg}`,
     );
   }
+  const { nonce, ct } = envelopeBytes(
+    envelope,
+    sodium.crypto_aead_xchacha20poly1305_ietf_NPUBBYTES,
+  );
   const wrapKey = await deriveWrapKey(ourSecretKey, peerPublicKey, ctx);
-  const nonce = base64ToBytes(envelope.nB64);
-  const cipher = base64ToBytes(envelope.cB64);
   const aad = envelope.header.aad ?? buildContextString(ctx);
-  return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
-    null,
-    cipher,
-    aad ? new TextEncoder().encode(aad) : null,
-    nonce,
-    wrapKey,
+  try {
+    return sodium.crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      ct,
+      aad ? new TextEncoder().encode(aad) : null,
+      nonce,
+      wrapKey,
+    );
+  } catch (cause) {
+    throw new AuthenticationFailedError(undefined, { cause });
+  }
+}
+
+/**
+ * Replace the recipient's `chat_room_keys` row for an epoch, recording which identity key
+ * versions the wrap was made with so the recipient can pick the matching keys to unwrap it.
+ */
+export async function saveRoomKeyWrap(
+  db: Pick<Transaction, "execute">,
+  ctx: RoomKeyWrapContext,
+  envelope: CipherEnvelope,
+  opts: {
+    epoch: number;
+    senderKeyVersion: number;
+    recipientKeyVersion: number;
+    createdAt: string;
+  },
+): Promise<void> {
+  // Epoch 1 keeps the original id so existing rows are replaced, not duplicated.
+  const id =
+    opts.epoch === 1
+      ? `${ctx.roomId}:${ctx.recipientId}`
+      : `${ctx.roomId}:${ctx.recipientId}:${opts.epoch}`;
+  await db.execute("DELETE FROM chat_room_keys WHERE id = ?", [id]);
+  await db.execute(
+    "INSERT INTO chat_room_keys (id, room_id, user_id, wrapped_by, epoch, sender_key_version, recipient_key_version, alg, aad, nonce_b64, cipher_b64, kdf_salt_b64, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+    [
+      id,
+      ctx.roomId,
+      ctx.recipientId,
+      ctx.senderId,
+      opts.epoch,
+      opts.senderKeyVersion,
+      opts.recipientKeyVersion,
+      envelope.header.alg,
+      envelope.header.aad ?? null,
+      envelope.nB64,
+      envelope.cB64,
+      envelope.header.kdf.saltB64 ?? "",
+      opts.createdAt,
+    ],
   );
 }
@@ -0,0 +1,58 @@
+import { bytesToBase64, base64ToBytes } from "@crypto/interface";
+import sodium from "libsodium-wrappers-sumo";
+
+const MESSAGE_SIGNATURE_CONTEXT = "chat-message-sig-v1";
+
+/**
+ * - `verified`: signed by the sender's published signing key.
+ * - `unverified`: unsigned (older clients) or the sender's signing key has not synced.
+ * - `mismatch`: the signature is invalid, the payload names a different sender, or the
+ *   row's `sent_at` names a different time than the signed one.
+ */
+export type MessageSignatureStatus = "verified" | "unverified" | "mismatch";
+
+export type SignedMessageFields = {
+  roomId: string;
+  id: string;
+  sentAt: string;
+  text: string;
+};
+
+function signedBytes(fields: SignedMessageFields): Uint8Array {
+  return sodium.from_string(
+    JSON.stringify([
+      MESSAGE_SIGNATURE_CONTEXT,
+      fields.roomId,
+      fields.id,
+      fields.sentAt,
+      fields.text,
+    ]),
+  );
+}
+
+export async function signMessage(
+  signingSecretKey: Uint8Array,
+  fields: SignedMessageFields,
+): Promise<string> {
+  await sodium.ready;
+  return bytesToBase64(
+    sodium.crypto_sign_detached(signedBytes(fields), signingSecretKey),
+  );
+}
+
+export async function verifyMessageSignature(
+  signingPublicKeyB64: string,
+  fields: SignedMessageFields,
+  signatureB64: string,
+): Promise<boolean> {
+  await sodium.ready;
+  try {
+    return sodium.crypto_sign_verify_detached(
+      base64ToBytes(signatureB64),
+      signedBytes(fields),
+      base64ToBytes(signingPublicKeyB64),
+    );
+  } catch {
+    return false;
+  }
+}
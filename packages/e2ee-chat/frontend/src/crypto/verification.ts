@@ -0,0 +1,171 @@
+import { bytesToBase64 } from "@crypto/interface";
+import type { AbstractPowerSyncDatabase } from "@powersync/web";
+import sodium from "libsodium-wrappers-sumo";
+import type { PeerPublicKey } from "./identity";
+
+// Safety numbers follow Signal's layout: each user contributes a 30-digit
+// fingerprint of their identity key, and the pair is ordered by user id so both
+// sides read the same 60 digits.
+const FINGERPRINT_VERSION = 0;
+const FINGERPRINT_ITERATIONS = 5200;
+const FINGERPRINT_BYTES = 30;
+const QR_PAYLOAD_PREFIX = "chat-e2ee-verify:1";
+const STRICT_SETTING_KEY = (userId: string) =>
+  `chat.verification.strict.${userId}`;
+
+export const PEER_VERIFICATIONS_TABLE = "chat_peer_verifications";
+
+/**
+ * - `verified`: the peer's current key matches the one the user verified.
+ * - `changed`: the peer was verified, but has published a different key since.
+ * - `unverified`: never verified on this device.
+ */
+export type PeerTrust = "verified" | "changed" | "unverified";
+
+export type SafetyNumber = {
+  /** 60 digits in groups of five, identical on both sides. */
+  digits: string;
+  /** String to encode as a QR code; scanning the peer's code should yield the same value. */
+  qrPayload: string;
+};
+
+export type PeerVerificationRow = {
+  id: string;
+  owner_id: string;
+  peer_user_id: string;
+  key_version: number;
+  public_key_b64: string;
+  verified_at: string;
+};
+
+async function fingerprint(
+  userId: string,
+  publicKey: Uint8Array,
+): Promise<Uint8Array> {
+  await sodium.ready;
+  let hash = concat(
+    new Uint8Array([0, FINGERPRINT_VERSION]),
+    publicKey,
+    sodium.from_string(userId),
+  );
+  for (let i = 0; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = sodium.crypto_generichash(64, concat(hash, publicKey));
+  }
+  return hash.slice(0, FINGERPRINT_BYTES);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function fingerprintDigits(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 5) {
+    let value = 0;
+    for (let j = 0; j < 5; j++) value = value * 256 + bytes[i + j];
+    chunks.push(String(value % 100000).padStart(5, "0"));
+  }
+  return chunks.join("");
+}
+
+export async function computeSafetyNumber(
+  ours: { userId: string; publicKey: Uint8Array },
+  theirs: { userId: string; publicKey: Uint8Array },
+): Promise<SafetyNumber> {
+  // Code-unit order, not localeCompare: both devices must agree whatever their locale.
+  const parties = [ours, theirs].sort((a, b) => (a.userId < b.userId ? -1 : 1));
+  const prints = await Promise.all(
+    parties.map((party) => fingerprint(party.userId, party.publicKey)),
+  );
+  const digits = prints.map(fingerprintDigits).join("");
+  return {
+    digits: digits.match(/.{5}/g)!.join(" "),
+    qrPayload: [
+      QR_PAYLOAD_PREFIX,
+      ...parties.flatMap((party, i) => [
+        party.userId,
+        bytesToBase64(prints[i]),
+      ]),
+    ].join(":"),
+  };
+}
+
+export function peerTrust(
+  verifiedKeyB64: string | null | undefined,
+  currentKeyB64: string,
+): PeerTrust {
+  if (!verifiedKeyB64) return "unverified";
+  return verifiedKeyB64 === currentKeyB64 ? "verified" : "changed";
+}
+
+export async function getPeerVerification(
+  db: AbstractPowerSyncDatabase,
+  ownerId: string,
+  peerUserId: string,
+): Promise<PeerVerificationRow | null> {
+  const rows = await db.getAll<PeerVerificationRow>(
+    `SELECT * FROM ${PEER_VERIFICATIONS_TABLE} WHERE owner_id = ? AND peer_user_id = ? LIMIT 1`,
+    [ownerId, peerUserId],
+  );
+  return rows?.[0] ?? null;
+}
+
+/** Record that the user compared safety numbers for the peer's current key. */
+export async function markPeerVerified(
+  db: AbstractPowerSyncDatabase,
+  ownerId: string,
+  peerUserId: string,
+  peerKey: PeerPublicKey,
+): Promise<void> {
+  const id = `${ownerId}:${peerUserId}`;
+  await db.writeTransaction(async (tx) => {
+    await tx.execute(`DELETE FROM ${PEER_VERIFICATIONS_TABLE} WHERE id = ?`, [
+      id,
+    ]);
+    await tx.execute(
+      `INSERT INTO ${PEER_VERIFICATIONS_TABLE} (id, owner_id, peer_user_id, key_version, public_key_b64, verified_at) VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        id,
+        ownerId,
+        peerUserId,
+        peerKey.version,
+        bytesToBase64(peerKey.publicKey),
+        new Date().toISOString(),
+      ],
+    );
+  });
+}
+
+export async function clearPeerVerification(
+  db: AbstractPowerSyncDatabase,
+  ownerId: string,
+  peerUserId: string,
+): Promise<void> {
+  await db.execute(`DELETE FROM ${PEER_VERIFICATIONS_TABLE} WHERE id = ?`, [
+    `${ownerId}:${peerUserId}`,
+  ]);
+}
+
+/** Whether room keys may only be wrapped to verified peer keys. Per device, off by default. */
+export function loadStrictVerification(userId: string): boolean {
+  try {
+    return localStorage.getItem(STRICT_SETTING_KEY(userId)) === "1";
+  } catch {
+    return false;
+  }
+}
+
+export function saveStrictVerification(userId: string, strict: boolean) {
+  try {
+    if (strict) localStorage.setItem(STRICT_SETTING_KEY(userId), "1");
+    else localStorage.removeItem(STRICT_SETTING_KEY(userId));
+  } catch (err) {
+    console.warn("Failed to persist verification setting", err);
+  }
+}
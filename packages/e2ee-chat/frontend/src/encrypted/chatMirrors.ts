@@ -1,22 +1,72 @@
-import type { CryptoProvider } from "@crypto/interface";
 import type {
   EncryptedRuntime,
+  KeyAvailabilityNotifier,
+  KeyRing,
+  MirrorValues,
   RawEncryptedRow,
   MirrorSubscriptionConfig,
 } from "@crypto/sqlite";
 import { startEncryptedMirrorSubscriptions } from "@crypto/sqlite";
+import { verifyMessageSignature } from "../crypto/signatures";
 import { CHAT_MESSAGES_PAIR, CHAT_ROOMS_PAIR } from "./chatPairs";
 
-type ResolveCrypto = (
-  row: RawEncryptedRow,
-) => Promise<CryptoProvider | null> | CryptoProvider | null;
+/** Compare timestamps as instants: the server may return sent_at in another format. */
+function sameInstant(a: string, b: string): boolean {
+  const [x, y] = [Date.parse(a), Date.parse(b)];
+  return Number.isNaN(x) || Number.isNaN(y) ? a === b : x === y;
+}
+
+/**
+ * Upgrade a parsed message to `verified` or `mismatch` by checking its signature
+ * against the sender's signing key for the version it names. `sender_signing_keys`
+ * is a JSON object of key_version -> signing key, joined in by the messages query.
+ * The signature covers the `sentAt` inside the ciphertext; the `sent_at` column is
+ * writable by the server, so a signed message whose column names another time is a
+ * mismatch too.
+ */
+export async function checkMessageSignature(
+  values: MirrorValues,
+  decrypted: MirrorValues,
+  row: RawEncryptedRow & Record<string, any>,
+): Promise<MirrorValues> {
+  const {
+    signature_b64: signature,
+    signature_key_version: keyVersion,
+    ...mirror
+  } = values;
+  if (mirror.signature_status === "mismatch" || !signature) return mirror;
+  let keys: Record<string, string> = {};
+  try {
+    keys = JSON.parse(row.sender_signing_keys ?? "{}");
+  } catch {
+    keys = {};
+  }
+  const signingKey = keys[String(keyVersion ?? 1)];
+  if (!signingKey) return mirror;
+  const signedAt = String(decrypted.sent_at ?? "");
+  const valid = await verifyMessageSignature(
+    signingKey,
+    {
+      roomId: String(mirror.room_id ?? ""),
+      id: row.id,
+      sentAt: signedAt,
+      text: String(mirror.text ?? ""),
+    },
+    signature,
+  );
+  const timeMatches =
+    mirror.sent_at == null || sameInstant(String(mirror.sent_at), signedAt);
+  return {
+    ...mirror,
+    signature_status: valid && timeMatches ? "verified" : "mismatch",
+  };
+}
 
 export function startChatMirrors(
   runtime: EncryptedRuntime,
-  opts?: { throttleMs?: number; resolveCrypto?: ResolveCrypto },
+  opts?: { throttleMs?: number; keyRing?: KeyRing & KeyAvailabilityNotifier },
 ) {
-  const resolveRoomsCrypto = opts?.resolveCrypto;
-  const resolveMessagesCrypto = opts?.resolveCrypto;
+  const keyRing = opts?.keyRing;
 
   const configs: MirrorSubscriptionConfig[] = [
     {
@@ -34,6 +84,7 @@ export function startChatMirrors(
           nonce_b64,
           cipher_b64,
           kdf_salt_b64,
+          kid,
           created_at,
           updated_at
         FROM chat_rooms
@@ -47,13 +98,19 @@ export function startChatMirrors(
       `,
         parameters: [runtime.userId],
       }),
-      resolveCrypto: async ({ row }) => {
-        if (resolveRoomsCrypto) {
-          const provider = await resolveRoomsCrypto(row);
+      resolveCrypto: async ({ row, pair }) => {
+        if (keyRing) {
+          const provider = await keyRing.resolve({
+            kid: row.kid ?? null,
+            row,
+            pair,
+          });
           if (provider) return provider;
         }
         return runtime.crypto;
       },
+      // Rooms decrypted with the fallback fail until their key is added; retry them then.
+      keyNotifier: keyRing,
     },
     {
       pair: CHAT_MESSAGES_PAIR,
@@ -70,8 +127,16 @@ export function startChatMirrors(
           nonce_b64,
           cipher_b64,
           kdf_salt_b64,
+          kid,
+          sent_at,
           created_at,
-          updated_at
+          updated_at,
+          (
+            SELECT json_group_object(k.key_version, k.signing_public_key_b64)
+              FROM chat_identity_public_keys k
+             WHERE k.user_id = chat_messages.user_id
+               AND k.signing_public_key_b64 IS NOT NULL
+          ) AS sender_signing_keys
         FROM chat_messages
         WHERE bucket_id IN (
           SELECT room_id FROM chat_room_members WHERE user_id = ?
@@ -80,12 +145,15 @@ export function startChatMirrors(
       `,
         parameters: [runtime.userId],
       }),
-      // Defer to the caller for key resolution when provided; otherwise fall back to the runtime crypto (e.g., locked vault).
-      resolveCrypto: async ({ row }) => {
-        if (resolveMessagesCrypto) {
-          return await resolveMessagesCrypto(row);
-        }
-        return runtime.crypto;
+      // Each message names the room epoch key it was written with; without a key ring fall back to the runtime crypto (e.g., locked vault).
+      keyRing,
+      transform: ({ values, decrypted, row }) =>
+        checkMessageSignature(values, decrypted, row),
+      // Re-check signatures when the sender's signing keys arrive or change.
+      comparator: {
+        keyBy: (row) => String(row.id),
+        compareBy: (row) =>
+          `${row.nonce_b64}|${row.cipher_b64}|${row.kid ?? ""}|${row.updated_at}|${row.sent_at ?? ""}|${row.sender_signing_keys ?? ""}`,
       },
     },
   ];
@@ -10,11 +10,14 @@ type MessagePayload = {
   text: string;
   sentAt?: string;
   senderId?: string;
+  /** Detached Ed25519 signature, see `signMessage`. */
+  sig?: string;
+  /** Identity key version of the signing key. */
+  sigKeyVersion?: number;
 };
 
 type MessageEncryptedRow = RawEncryptedRow & {
   room_id?: string | null;
-  sent_at?: string | null;
   sender_id?: string | null;
 };
 
@@ -29,6 +32,7 @@ export const CHAT_ROOMS_PAIR: EncryptedPairConfig<RoomPayload> = {
     { name: "topic", type: "TEXT" },
   ],
   aad: "chat-room-v1",
+  tableShape: { kidColumn: "kid" },
   parsePlain: ({ plaintext }) => {
     const json = textDecoder.decode(plaintext);
     try {
@@ -55,9 +59,25 @@ export const CHAT_MESSAGES_PAIR: EncryptedPairConfig<MessagePayload> = {
     { name: "room_id", type: "TEXT", notNull: true },
     { name: "sender_id", type: "TEXT", notNull: true },
     { name: "text", type: "TEXT", notNull: true, defaultExpr: "''" },
-    { name: "sent_at", type: "TEXT", notNull: true },
+    {
+      name: "signature_status",
+      type: "TEXT",
+      notNull: true,
+      defaultExpr: "'unverified'",
+    },
   ],
+  // Set by the sender; the server's chat_message_defaults trigger fills it in when missing.
+  passthroughColumns: [
+    {
+      name: "sent_at",
+      type: "TEXT",
+      notNull: true,
+      value: (message) => message.sentAt,
+    },
+  ],
+  searchColumns: ["text"],
   aad: "chat-message-v1",
+  tableShape: { kidColumn: "kid" },
   parsePlain: ({ plaintext, encryptedRow }) => {
     const raw = textDecoder.decode(plaintext);
     let parsed: MessagePayload | null = null;
@@ -69,14 +89,22 @@ export const CHAT_MESSAGES_PAIR: EncryptedPairConfig<MessagePayload> = {
 
     const row = encryptedRow as MessageEncryptedRow;
     const roomId = row.bucket_id ?? row.room_id ?? null;
-    const sentAt = parsed?.sentAt ?? row.sent_at ?? row.updated_at;
-    const senderId = parsed?.senderId ?? row.sender_id ?? row.user_id;
+    // The signed time; also displayed for rows synced before sent_at was a passthrough column.
+    const sentAt = parsed?.sentAt ?? row.updated_at;
+    // The row's writer is enforced by RLS; the payload's claim is only checked against it.
+    const senderId = row.sender_id ?? row.user_id;
+    const claimsOtherSender =
+      parsed?.senderId !== undefined && parsed.senderId !== senderId;
 
     return {
       room_id: roomId,
       sender_id: senderId,
       text: parsed?.text ?? raw,
       sent_at: sentAt,
+      signature_status: claimsOtherSender ? "mismatch" : "unverified",
+      // Not mirror columns; read by the signature check in chatMirrors.
+      signature_b64: parsed?.sig ?? null,
+      signature_key_version: parsed?.sigKeyVersion ?? null,
     };
   },
   serializePlain: (message) => ({
@@ -89,12 +89,15 @@ export function SystemProvider({ children }: { children: React.ReactNode }) {
       nonce_b64: column.text,
       cipher_b64: column.text,
       kdf_salt_b64: column.text,
+      kdf_json: column.text,
+      label: column.text,
       created_at: column.text,
     });
 
     const chat_identity_private_keys = new Table({
       id: column.text,
       user_id: column.text,
+      key_version: column.integer,
       alg: column.text,
       aad: column.text,
       nonce_b64: column.text,
@@ -106,8 +109,9 @@ export function SystemProvider({ children }: { children: React.ReactNode }) {
     const chat_identity_public_keys = new Table({
       id: column.text,
       user_id: column.text,
-      key_version: column.text,
+      key_version: column.integer,
       public_key_b64: column.text,
+      signing_public_key_b64: column.text,
       created_at: column.text,
       updated_at: column.text,
     });
@@ -126,6 +130,9 @@ export function SystemProvider({ children }: { children: React.ReactNode }) {
       room_id: column.text,
       user_id: column.text,
       wrapped_by: column.text,
+      epoch: column.integer,
+      sender_key_version: column.integer,
+      recipient_key_version: column.integer,
       alg: column.text,
       aad: column.text,
       nonce_b64: column.text,
@@ -134,12 +141,26 @@ export function SystemProvider({ children }: { children: React.ReactNode }) {
       created_at: column.text,
     });
 
+    // Never synced: which peer keys this user has verified on this device.
+    const chat_peer_verifications = new Table(
+      {
+        id: column.text,
+        owner_id: column.text,
+        peer_user_id: column.text,
+        key_version: column.integer,
+        public_key_b64: column.text,
+        verified_at: column.text,
+      },
+      { localOnly: true },
+    );
+
     const baseSchema = new Schema({
       chat_e2ee_keys,
       chat_identity_private_keys,
       chat_identity_public_keys,
       chat_room_members,
       chat_room_keys,
+      chat_peer_verifications,
     });
 
     const schema = installPairsOnSchema(baseSchema, CHAT_PAIRS);
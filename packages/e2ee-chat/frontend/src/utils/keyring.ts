@@ -1,13 +1,18 @@
-import type { CryptoProvider, CipherEnvelope } from "@crypto/interface";
-import type { AbstractPowerSyncDatabase } from "@powersync/web";
+import type {
+  CryptoProvider,
+  CipherEnvelope,
+  KdfParams,
+} from "@crypto/interface";
+import type { AbstractPowerSyncDatabase, Transaction } from "@powersync/web";
 import { bytesToBase64 } from "@crypto/interface";
 import { generateDEK } from "@crypto/sqlite";
 
-type ProviderKind = "password" | "webauthn";
+export type ProviderKind = "password" | "webauthn" | "recovery";
 
 const KEY_TABLE = "chat_e2ee_keys";
 
 export type WrappedKeyRow = {
+  id: string;
   user_id: string;
   provider: ProviderKind;
   alg: string;
@@ -15,9 +20,17 @@ export type WrappedKeyRow = {
   nonce_b64: string;
   cipher_b64: string;
   kdf_salt_b64: string;
+  /** Full `header.kdf` of the wrap (salt plus cost parameters); older rows only have the salt. */
+  kdf_json?: string | null;
+  label?: string | null;
   created_at: string;
 };
 
+const VAULT_DEK_AAD = "vault-dek-v1";
+
+// Either the database or an open write transaction.
+type KeyDb = Pick<Transaction, "getAll" | "execute">;
+
 export async function ensureVaultKey(
   db: AbstractPowerSyncDatabase,
   userId: string,
@@ -26,42 +39,170 @@ export async function ensureVaultKey(
   keyId?: string,
 ): Promise<Uint8Array> {
   const existing = await fetchWrappedKeyLocal(db, userId, providerKind, keyId);
-  if (existing) {
-    try {
-      const dek = await wrapper.decrypt(
-        {
-          header: {
-            v: 1,
-            alg: existing.alg,
-            aad: existing.aad ?? undefined,
-            kdf: { saltB64: existing.kdf_salt_b64 },
-          },
-          nB64: existing.nonce_b64,
-          cB64: existing.cipher_b64,
-        },
-        existing.aad ?? undefined,
-      );
-      return dek;
-    } catch (err) {
-      console.error(
-        "Existing wrapped key cannot be decrypted with this credential.",
-        err,
-      );
-      throw err instanceof Error ? err : new Error(String(err));
-    }
-  }
+  if (existing) return decryptWrappedKey(existing, wrapper);
 
   const dek = await generateDEK();
-  const aad = "vault-dek-v1";
-  const env: CipherEnvelope = await wrapper.encrypt(dek, aad);
-  await upsertWrappedKeyLocal(db, userId, providerKind, env, aad, keyId);
+  const env: CipherEnvelope = await wrapper.encrypt(dek, VAULT_DEK_AAD);
+  await upsertWrappedKeyLocal(
+    db,
+    userId,
+    providerKind,
+    env,
+    VAULT_DEK_AAD,
+    keyId,
+  );
   return dek;
 }
 
-export async function fetchWrappedKeyLocal(
+/**
+ * Unwrap the vault DEK from an existing wrap. Unlike `ensureVaultKey` this never creates
+ * a new DEK, so unlocking with a credential that has no wrap cannot fork the vault.
+ */
+export async function unwrapVaultKey(
   db: AbstractPowerSyncDatabase,
   userId: string,
   providerKind: ProviderKind,
+  wrapper: CryptoProvider,
+  keyId?: string,
+): Promise<Uint8Array> {
+  const existing = await fetchWrappedKeyLocal(db, userId, providerKind, keyId);
+  if (!existing) {
+    throw new Error(
+      providerKind === "webauthn"
+        ? "This passkey is not registered for your vault."
+        : providerKind === "recovery"
+          ? "No recovery code is set for this vault."
+          : "No passphrase is set for this vault.",
+    );
+  }
+  return decryptWrappedKey(existing, wrapper);
+}
+
+/** Wrap an already unlocked vault DEK with another credential (e.g. an extra passkey). */
+export async function addVaultKeyWrap(
+  db: AbstractPowerSyncDatabase,
+  userId: string,
+  providerKind: ProviderKind,
+  wrapper: CryptoProvider,
+  dek: Uint8Array,
+  keyId?: string,
+  label?: string,
+): Promise<void> {
+  const env = await wrapper.encrypt(dek, VAULT_DEK_AAD);
+  await upsertWrappedKeyLocal(
+    db,
+    userId,
+    providerKind,
+    env,
+    VAULT_DEK_AAD,
+    keyId,
+    label,
+  );
+}
+
+export type RewrapOptions = {
+  providerKind?: ProviderKind; // default "password"
+  keyId?: string;
+};
+
+/**
+ * Re-wrap the vault DEK under a new credential (e.g. a changed passphrase). The DEK itself is
+ * unchanged, so identity keys, room keys and message data stay as they are. The new wrap is
+ * checked to round-trip before it replaces the old one in a single write transaction.
+ */
+export async function rewrapVaultKey(
+  db: AbstractPowerSyncDatabase,
+  userId: string,
+  oldWrapper: CryptoProvider,
+  newWrapper: CryptoProvider,
+  opts: RewrapOptions = {},
+): Promise<void> {
+  const providerKind = opts.providerKind ?? "password";
+  const existing = await fetchWrappedKeyLocal(
+    db,
+    userId,
+    providerKind,
+    opts.keyId,
+  );
+  if (!existing) throw new Error("No wrapped vault key to change.");
+  const dek = await decryptWrappedKey(existing, oldWrapper);
+
+  const env = await newWrapper.encrypt(dek, VAULT_DEK_AAD);
+  const check = await newWrapper.decrypt(env, VAULT_DEK_AAD);
+  if (bytesToBase64(check) !== bytesToBase64(dek)) {
+    throw new Error("New vault key wrap failed verification.");
+  }
+
+  await db.writeTransaction(async (tx) => {
+    // Refuse to overwrite a wrap that changed since we unwrapped it (e.g. synced from another device).
+    const current = await fetchWrappedKeyLocal(
+      tx,
+      userId,
+      providerKind,
+      opts.keyId,
+    );
+    if (current?.cipher_b64 !== existing.cipher_b64) {
+      throw new Error("Vault key changed while re-wrapping; try again.");
+    }
+    await upsertWrappedKeyLocal(
+      tx,
+      userId,
+      providerKind,
+      env,
+      VAULT_DEK_AAD,
+      opts.keyId,
+    );
+  });
+}
+
+async function decryptWrappedKey(
+  existing: WrappedKeyRow,
+  wrapper: CryptoProvider,
+): Promise<Uint8Array> {
+  try {
+    return await wrapper.decrypt(
+      {
+        header: {
+          v: 1,
+          alg: existing.alg,
+          aad: existing.aad ?? undefined,
+          kid: passkeyCredentialId(existing) ?? undefined,
+          kdf: wrappedKeyKdf(existing),
+        },
+        nB64: existing.nonce_b64,
+        cB64: existing.cipher_b64,
+      },
+      existing.aad ?? undefined,
+    );
+  } catch (err) {
+    console.error(
+      "Existing wrapped key cannot be decrypted with this credential.",
+      err,
+    );
+    throw err instanceof Error ? err : new Error(String(err));
+  }
+}
+
+function wrappedKeyKdf(row: WrappedKeyRow): KdfParams {
+  if (row.kdf_json) return JSON.parse(row.kdf_json) as KdfParams;
+  return { saltB64: row.kdf_salt_b64 };
+}
+
+export async function listWrappedKeysLocal(
+  db: AbstractPowerSyncDatabase,
+  userId: string,
+  providerKind: ProviderKind,
+): Promise<WrappedKeyRow[]> {
+  return db.getAll<WrappedKeyRow>(
+    `SELECT * FROM ${KEY_TABLE} WHERE user_id = ? AND provider = ? ORDER BY created_at`,
+    [userId, providerKind],
+  );
+}
+
+export async function fetchWrappedKeyLocal(
+  db: KeyDb,
+  userId: string,
+  providerKind: ProviderKind,
   keyId?: string,
 ): Promise<WrappedKeyRow | null> {
   const id = keyId ?? makeKeyId(userId, providerKind);
@@ -73,12 +214,13 @@ export async function fetchWrappedKeyLocal(
 }
 
 export async function upsertWrappedKeyLocal(
-  db: AbstractPowerSyncDatabase,
+  db: KeyDb,
   userId: string,
   providerKind: ProviderKind,
   env: CipherEnvelope,
   aad?: string,
   keyId?: string,
+  label?: string,
 ) {
   const id = keyId ?? makeKeyId(userId, providerKind);
   const row = {
@@ -90,6 +232,8 @@ export async function upsertWrappedKeyLocal(
     nonce_b64: env.nB64,
     cipher_b64: env.cB64,
     kdf_salt_b64: env.header.kdf.saltB64 ?? "",
+    kdf_json: JSON.stringify(env.header.kdf),
+    label: label ?? null,
     created_at: new Date().toISOString(),
   };
 
@@ -99,20 +243,22 @@ export async function upsertWrappedKeyLocal(
   );
   if (exists && exists.length > 0) {
     await db.execute(
-      `UPDATE ${KEY_TABLE} SET alg = ?, aad = ?, nonce_b64 = ?, cipher_b64 = ?, kdf_salt_b64 = ?, created_at = ? WHERE id = ?`,
+      `UPDATE ${KEY_TABLE} SET alg = ?, aad = ?, nonce_b64 = ?, cipher_b64 = ?, kdf_salt_b64 = ?, kdf_json = ?, label = COALESCE(?, label), created_at = ? WHERE id = ?`,
       [
         row.alg,
         row.aad,
         row.nonce_b64,
         row.cipher_b64,
         row.kdf_salt_b64,
+        row.kdf_json,
+        row.label,
         row.created_at,
         row.id,
       ],
     );
   } else {
     await db.execute(
-      `INSERT INTO ${KEY_TABLE} (id, user_id, provider, alg, aad, nonce_b64, cipher_b64, kdf_salt_b64, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO ${KEY_TABLE} (id, user_id, provider, alg, aad, nonce_b64, cipher_b64, kdf_salt_b64, kdf_json, label, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         row.id,
         row.user_id,
@@ -122,6 +268,8 @@ export async function upsertWrappedKeyLocal(
         row.nonce_b64,
         row.cipher_b64,
         row.kdf_salt_b64,
+        row.kdf_json,
+        row.label,
         row.created_at,
       ],
     );
@@ -180,8 +328,26 @@ export async function buildVerifierAAD(
   });
 }
 
-export function makeKeyId(userId: string, provider: ProviderKind) {
-  return `${userId}:${provider}`;
+/**
+ * Wrapped-key row id. Passkey wraps are stored once per credential, so each registered
+ * passkey can unwrap the vault DEK on its own.
+ */
+export function makeKeyId(
+  userId: string,
+  provider: ProviderKind,
+  credentialId?: string,
+) {
+  return credentialId
+    ? `${userId}:${provider}:${credentialId}`
+    : `${userId}:${provider}`;
+}
+
+/** Credential id of a passkey wrap, read back from its row id; null for other wraps. */
+export function passkeyCredentialId(
+  row: Pick<WrappedKeyRow, "id" | "user_id">,
+): string | null {
+  const prefix = `${makeKeyId(row.user_id, "webauthn")}:`;
+  return row.id.startsWith(prefix) ? row.id.slice(prefix.length) : null;
 }
 
 export const identityPrivateKeyId = (userId: string) => `identity:${userId}`;
@@ -53,6 +53,11 @@ test("guest reconnecting with same passphrase sees existing room", async ({
   });
   await page.getByTestId("vault-passphrase-input").fill(passphrase);
   await page.getByTestId("vault-submit-button").click();
+  await expect(page.getByTestId("recovery-code")).toBeVisible({
+    timeout: 30_000,
+  });
+  await page.getByTestId("recovery-code-saved-checkbox").check();
+  await page.getByTestId("recovery-code-done-button").click();
   await expect(page.getByTestId("app-heading")).toBeVisible({
     timeout: 30_000,
   });
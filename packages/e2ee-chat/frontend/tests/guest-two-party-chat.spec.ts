@@ -25,6 +25,11 @@ async function bootstrapGuest(page: Page, passphrase: string) {
   const passInput = page.getByTestId("vault-passphrase-input");
   await passInput.fill(passphrase);
   await page.getByTestId("vault-submit-button").click();
+  await expect(page.getByTestId("recovery-code")).toBeVisible({
+    timeout: 30_000,
+  });
+  await page.getByTestId("recovery-code-saved-checkbox").check();
+  await page.getByTestId("recovery-code-done-button").click();
 
   await expect(page.getByTestId("app-heading")).toBeVisible({
     timeout: 30_000,
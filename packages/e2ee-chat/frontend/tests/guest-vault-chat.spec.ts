@@ -35,6 +35,11 @@ test("guest can create a vault and start a chat", async ({ page }) => {
 
   await createPassphraseInput.fill(passphrase);
   await page.getByTestId("vault-submit-button").click();
+  await expect(page.getByTestId("recovery-code")).toBeVisible({
+    timeout: 30_000,
+  });
+  await page.getByTestId("recovery-code-saved-checkbox").check();
+  await page.getByTestId("recovery-code-done-button").click();
 
   await expect(page.getByTestId("app-heading")).toBeVisible({
     timeout: 30_000,
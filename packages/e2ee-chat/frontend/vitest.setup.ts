@@ -0,0 +1,2 @@
+// Forward to monorepo root vitest setup
+import "../../../vitest.setup";
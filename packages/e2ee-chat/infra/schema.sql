@@ -11,9 +11,17 @@ create table if not exists public.chat_e2ee_keys (
   nonce_b64 text not null,
   cipher_b64 text not null,
   kdf_salt_b64 text not null,
+  kdf_json text null,
+  label text null,
   created_at timestamptz not null default now()
 );
 
+-- Display name for passkey wraps (one row per registered credential).
+alter table public.chat_e2ee_keys add column if not exists label text null;
+
+-- Full KDF parameters of the wrap (salt plus cost), so a wrap stays readable when profiles change.
+alter table public.chat_e2ee_keys add column if not exists kdf_json text null;
+
 alter table public.chat_e2ee_keys enable row level security;
 
 drop policy if exists "Users can manage chat keys" on public.chat_e2ee_keys;
@@ -31,10 +39,14 @@ create table if not exists public.chat_identity_public_keys (
   user_id uuid not null references auth.users(id) on delete cascade,
   key_version integer not null default 1,
   public_key_b64 text not null,
+  -- Ed25519 key for message signatures, derived from the same identity secret.
+  signing_public_key_b64 text null,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
 
+alter table public.chat_identity_public_keys add column if not exists signing_public_key_b64 text null;
+
 create unique index if not exists idx_chat_identity_public_keys_user_version
   on public.chat_identity_public_keys(user_id, key_version);
 
@@ -57,6 +69,7 @@ create index if not exists idx_chat_identity_public_keys_user on public.chat_ide
 create table if not exists public.chat_identity_private_keys (
   id text primary key,
   user_id uuid not null references auth.users(id) on delete cascade,
+  key_version integer not null default 1,
   alg text not null,
   aad text null,
   nonce_b64 text not null,
@@ -65,7 +78,11 @@ create table if not exists public.chat_identity_private_keys (
   created_at timestamptz not null default now()
 );
 
+alter table public.chat_identity_private_keys add column if not exists key_version integer not null default 1;
+
 create index if not exists idx_chat_identity_private_keys_user on public.chat_identity_private_keys(user_id);
+create unique index if not exists idx_chat_identity_private_keys_user_version
+  on public.chat_identity_private_keys(user_id, key_version);
 
 alter table public.chat_identity_private_keys enable row level security;
 
@@ -85,10 +102,14 @@ create table if not exists public.chat_rooms (
   nonce_b64 text not null,
   cipher_b64 text not null,
   kdf_salt_b64 text not null,
+  -- Key id of the room key epoch that encrypted the row; null means epoch 1.
+  kid text null,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
 
+alter table public.chat_rooms add column if not exists kid text null;
+
 create index if not exists idx_chat_rooms_user on public.chat_rooms(user_id);
 create index if not exists idx_chat_rooms_bucket on public.chat_rooms(bucket_id);
 
@@ -112,6 +133,11 @@ create table if not exists public.chat_room_keys (
   room_id text not null references public.chat_rooms(id) on delete cascade,
   user_id uuid not null references auth.users(id) on delete cascade,
   wrapped_by uuid null references auth.users(id) on delete set null,
+  -- Room key epoch; removing a member starts a new one.
+  epoch integer not null default 1,
+  -- Identity key versions the wrap was made with; null means version 1.
+  sender_key_version integer null,
+  recipient_key_version integer null,
   alg text not null,
   aad text null,
   nonce_b64 text not null,
@@ -120,7 +146,12 @@ create table if not exists public.chat_room_keys (
   created_at timestamptz not null default now()
 );
 
-create unique index if not exists idx_chat_room_keys_user_room on public.chat_room_keys(room_id, user_id);
+alter table public.chat_room_keys add column if not exists sender_key_version integer null;
+alter table public.chat_room_keys add column if not exists recipient_key_version integer null;
+alter table public.chat_room_keys add column if not exists epoch integer not null default 1;
+
+drop index if exists public.idx_chat_room_keys_user_room;
+create unique index if not exists idx_chat_room_keys_user_room_epoch on public.chat_room_keys(room_id, user_id, epoch);
 create index if not exists idx_chat_room_keys_user on public.chat_room_keys(user_id);
 
 alter table public.chat_room_keys enable row level security;
@@ -152,6 +183,23 @@ create policy "Members view membership"
     )
   );
 
+-- Security definer so membership policies can check ownership without recursing into themselves.
+create or replace function public.chat_is_room_owner(target_room text)
+returns boolean as $$
+  select exists (
+    select 1
+      from public.chat_room_members m
+     where m.room_id = target_room
+       and m.user_id = auth.uid()
+       and m.role = 'owner'
+  );
+$$ language sql stable security definer set search_path = public;
+
+drop policy if exists "Owners remove members" on public.chat_room_members;
+create policy "Owners remove members"
+  on public.chat_room_members for delete
+  using (public.chat_is_room_owner(room_id));
+
 drop policy if exists "Inviters manage membership" on public.chat_room_members;
 create policy "Inviters manage membership"
   on public.chat_room_members for all
@@ -224,11 +272,14 @@ create table if not exists public.chat_messages (
   nonce_b64 text not null,
   cipher_b64 text not null,
   kdf_salt_b64 text not null,
+  kid text null,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now(),
   sent_at timestamptz not null default now()
 );
 
+alter table public.chat_messages add column if not exists kid text null;
+
 create index if not exists idx_chat_messages_room on public.chat_messages(bucket_id, sent_at desc);
 create index if not exists idx_chat_messages_sender on public.chat_messages(sender_id);
 create index if not exists idx_chat_messages_user on public.chat_messages(user_id);